@@ -1,10 +1,18 @@
+import { createHmac } from "crypto";
 import type { PluginRegistry } from "every-plugin";
 import { createLocalPluginRuntime } from "every-plugin/testing";
-import { beforeAll, describe, expect, it } from "vitest";
+import { parseAuthToken, verify } from "near-sign-verify";
+import { afterEach, beforeAll, describe, expect, it, vi } from "vitest";
 import DiscoursePlugin from "../../index";
+import { actionMessage } from "../../service";
+
+vi.mock("near-sign-verify", () => ({
+  verify: vi.fn().mockRejectedValue(new Error("invalid signature")),
+  parseAuthToken: vi.fn(),
+}));
 
 const TEST_REGISTRY: PluginRegistry = {
-  "@neargov/discourse": {
+  "@neargov/discourse-plugin": {
     remoteUrl: "http://localhost:3014/remoteEntry.js",
     version: "0.0.1",
     description: "Discourse NEAR plugin for integration testing",
@@ -12,7 +20,7 @@ const TEST_REGISTRY: PluginRegistry = {
 };
 
 const TEST_PLUGIN_MAP = {
-  "@neargov/discourse": DiscoursePlugin,
+  "@neargov/discourse-plugin": DiscoursePlugin,
 } as const;
 
 const TEST_CONFIG = {
@@ -21,12 +29,34 @@ const TEST_CONFIG = {
     discourseApiUsername: "system",
     clientId: "test-client",
     recipient: "social.near",
+    adminAccounts: ["admin.near"],
   },
   secrets: {
     discourseApiKey: "test-api-key",
+    adminSecret: "test-admin-secret-0123456789abcdef",
+    webhookSecret: "test-webhook-secret",
   },
 };
 
+// Make the next NEAR token verify as signed by accountId
+const signAs = (accountId: string) => {
+  vi.mocked(verify).mockResolvedValueOnce({
+    accountId,
+    message: "signed",
+    publicKey: `ed25519:${accountId}`,
+  });
+  vi.mocked(parseAuthToken).mockReturnValueOnce({
+    accountId,
+    publicKey: `ed25519:${accountId}`,
+    signature: "signature",
+    message: "signed",
+    nonce: [Math.floor(Math.random() * 1e9)],
+    recipient: "social.near",
+    callbackUrl: null,
+    state: null,
+  });
+};
+
 describe("Discourse Plugin Integration Tests", () => {
   const runtime = createLocalPluginRuntime<typeof TEST_PLUGIN_MAP>(
     {
@@ -38,17 +68,17 @@ describe("Discourse Plugin Integration Tests", () => {
 
   beforeAll(async () => {
     const { initialized } = await runtime.usePlugin(
-      "@neargov/discourse",
+      "@neargov/discourse-plugin",
       TEST_CONFIG
     );
     expect(initialized).toBeDefined();
-    expect(initialized.plugin.id).toBe("@neargov/discourse");
+    expect(initialized.plugin.id).toBe("@neargov/discourse-plugin");
   });
 
   describe("ping procedure", () => {
     it("should return healthy status", async () => {
       const { client } = await runtime.usePlugin(
-        "@neargov/discourse",
+        "@neargov/discourse-plugin",
         TEST_CONFIG
       );
 
@@ -57,15 +87,33 @@ describe("Discourse Plugin Integration Tests", () => {
       expect(result).toEqual({
         status: "ok",
         timestamp: expect.any(String),
-        discourseConnected: true,
+        discourseConnected: expect.any(Boolean),
+      });
+    });
+  });
+
+  describe("health procedure", () => {
+    it("should report discourse and storage status", async () => {
+      const { client } = await runtime.usePlugin(
+        "@neargov/discourse-plugin",
+        TEST_CONFIG
+      );
+
+      const result = await client.health();
+
+      expect(["ok", "degraded", "down"]).toContain(result.status);
+      expect(result.storage).toMatchObject({
+        backend: "memory",
+        healthy: true,
       });
+      expect(typeof result.discourse.connected).toBe("boolean");
     });
   });
 
   describe("getUserApiAuthUrl procedure", () => {
     it("should generate auth URL successfully", async () => {
       const { client } = await runtime.usePlugin(
-        "@neargov/discourse",
+        "@neargov/discourse-plugin",
         TEST_CONFIG
       );
 
@@ -86,7 +134,7 @@ describe("Discourse Plugin Integration Tests", () => {
 
     it("should generate unique nonces", async () => {
       const { client } = await runtime.usePlugin(
-        "@neargov/discourse",
+        "@neargov/discourse-plugin",
         TEST_CONFIG
       );
 
@@ -107,7 +155,7 @@ describe("Discourse Plugin Integration Tests", () => {
   describe("getLinkage procedure", () => {
     it("should return null for non-existent linkage", async () => {
       const { client } = await runtime.usePlugin(
-        "@neargov/discourse",
+        "@neargov/discourse-plugin",
         TEST_CONFIG
       );
 
@@ -122,7 +170,7 @@ describe("Discourse Plugin Integration Tests", () => {
   describe("completeLink procedure", () => {
     it("should reject invalid nonce", async () => {
       const { client } = await runtime.usePlugin(
-        "@neargov/discourse",
+        "@neargov/discourse-plugin",
         TEST_CONFIG
       );
 
@@ -134,12 +182,58 @@ describe("Discourse Plugin Integration Tests", () => {
         })
       ).rejects.toThrow();
     });
+
+    it("should check the signature before opening the payload", async () => {
+      const { client } = await runtime.usePlugin(
+        "@neargov/discourse-plugin",
+        TEST_CONFIG
+      );
+      const { nonce } = await client.getUserApiAuthUrl({
+        clientId: "test-client",
+        applicationName: "Test Application",
+      });
+
+      await expect(
+        client.completeLink({
+          payload: "AAAA",
+          nonce,
+          authToken: "unsigned-token",
+        })
+      ).rejects.toMatchObject({ code: "UNAUTHORIZED" });
+    });
+
+    it("should spend the nonce when the payload cannot be decrypted", async () => {
+      const { client } = await runtime.usePlugin(
+        "@neargov/discourse-plugin",
+        TEST_CONFIG
+      );
+      const { nonce } = await client.getUserApiAuthUrl({
+        clientId: "test-client",
+        applicationName: "Test Application",
+      });
+
+      signAs("alice.near");
+      await expect(
+        client.completeLink({ payload: "AAAA", nonce, authToken: "token" })
+      ).rejects.toMatchObject({
+        code: "BAD_REQUEST",
+        message: "Encrypted payload could not be decrypted",
+      });
+
+      signAs("alice.near");
+      await expect(
+        client.completeLink({ payload: "AAAA", nonce, authToken: "token" })
+      ).rejects.toMatchObject({
+        code: "BAD_REQUEST",
+        message: "Invalid or expired nonce",
+      });
+    });
   });
 
   describe("createPost procedure", () => {
     it("should reject when no linkage exists", async () => {
       const { client } = await runtime.usePlugin(
-        "@neargov/discourse",
+        "@neargov/discourse-plugin",
         TEST_CONFIG
       );
 
@@ -152,4 +246,419 @@ describe("Discourse Plugin Integration Tests", () => {
       ).rejects.toThrow();
     });
   });
+
+  describe("search procedure", () => {
+    it("should reject an author without a linked account", async () => {
+      const { client } = await runtime.usePlugin(
+        "@neargov/discourse-plugin",
+        TEST_CONFIG
+      );
+
+      await expect(
+        client.search({ query: "proposal", nearAccount: "unlinked.near" })
+      ).rejects.toThrow();
+    });
+  });
+
+  describe("getNotifications procedure", () => {
+    afterEach(() => {
+      vi.unstubAllGlobals();
+    });
+
+    it("should accept a key with only the read scope", async () => {
+      const { client } = await runtime.usePlugin(
+        "@neargov/discourse-plugin",
+        TEST_CONFIG
+      );
+      await client.adminImportLinkages({
+        adminSecret: TEST_CONFIG.secrets.adminSecret,
+        jsonl: JSON.stringify({
+          nearAccount: "reader.near",
+          discourseUsername: "reader",
+          discourseUserId: 700,
+          verifiedAt: "2024-01-01T00:00:00.000Z",
+          userApiKey: "reader-key",
+          scopes: ["read"],
+        }),
+      });
+      vi.stubGlobal(
+        "fetch",
+        vi
+          .fn()
+          .mockImplementation(async () =>
+            Response.json({ notifications: [], total_rows_notifications: 0 })
+          )
+      );
+
+      signAs("reader.near");
+      await expect(
+        client.getNotifications({ authToken: "reader-token" })
+      ).resolves.toMatchObject({ notifications: [] });
+
+      signAs("reader.near");
+      await expect(
+        client.markNotificationsRead({ authToken: "reader-token" })
+      ).rejects.toMatchObject({
+        code: "FORBIDDEN",
+        data: { requiredPermissions: ["notifications"] },
+      });
+    });
+  });
+
+  describe("rate limits", () => {
+    afterEach(() => {
+      vi.unstubAllGlobals();
+    });
+
+    it("should reject writes over the limit with HTTP 429", async () => {
+      const config = {
+        ...TEST_CONFIG,
+        variables: { ...TEST_CONFIG.variables, rateLimitPerAccount: 1 },
+      };
+      const { client } = await runtime.usePlugin(
+        "@neargov/discourse-plugin",
+        config
+      );
+      await client.adminImportLinkages({
+        adminSecret: TEST_CONFIG.secrets.adminSecret,
+        jsonl: JSON.stringify({
+          nearAccount: "limited.near",
+          discourseUsername: "limited",
+          discourseUserId: 600,
+          verifiedAt: "2024-01-01T00:00:00.000Z",
+          userApiKey: "limited-key",
+        }),
+      });
+      vi.stubGlobal(
+        "fetch",
+        vi
+          .fn()
+          .mockImplementation(async () =>
+            Response.json({ id: 1, topic_id: 2, topic_slug: "limited-topic" })
+          )
+      );
+      const post = {
+        authToken: "limited-token",
+        title: "Rate limited post title",
+        raw: "This is a test post content that is long enough.",
+      };
+
+      signAs("limited.near");
+      await client.createPost(post);
+
+      signAs("limited.near");
+      await expect(
+        client.createPost({ ...post, raw: `${post.raw} Again.` })
+      ).rejects.toMatchObject({
+        code: "RATE_LIMITED",
+        status: 429,
+        data: { retryAfter: 60, limitType: "requests" },
+      });
+    });
+  });
+
+  describe("admin procedures", () => {
+    const adminSecret = TEST_CONFIG.secrets.adminSecret;
+
+    const linkage = (nearAccount: string, discourseUserId: number) => ({
+      nearAccount,
+      discourseUsername: nearAccount.replace(".near", "").toUpperCase(),
+      discourseUserId,
+      verifiedAt: "2024-01-01T00:00:00.000Z",
+      scopes: ["read", "write"],
+    });
+
+    const jsonl = (...linkages: Array<Record<string, unknown>>) =>
+      linkages.map((entry) => JSON.stringify(entry)).join("\n");
+
+    it("should reject calls without admin credentials", async () => {
+      const { client } = await runtime.usePlugin(
+        "@neargov/discourse-plugin",
+        TEST_CONFIG
+      );
+
+      await expect(client.adminListLinkages({})).rejects.toMatchObject({
+        code: "UNAUTHORIZED",
+      });
+      await expect(
+        client.adminListLinkages({ adminSecret: "wrong-secret" })
+      ).rejects.toMatchObject({ code: "UNAUTHORIZED" });
+    });
+
+    it("should accept tokens only from allowlisted accounts", async () => {
+      const { client } = await runtime.usePlugin(
+        "@neargov/discourse-plugin",
+        TEST_CONFIG
+      );
+
+      signAs("alice.near");
+      await expect(
+        client.adminListLinkages({ authToken: "alice-token" })
+      ).rejects.toMatchObject({ code: "FORBIDDEN" });
+
+      signAs("admin.near");
+      const result = await client.adminListLinkages({
+        authToken: "admin-token",
+      });
+      expect(result).toMatchObject({ nextPage: null });
+      expect(verify).toHaveBeenLastCalledWith("admin-token", {
+        expectedRecipient: "social.near",
+        nonceMaxAge: 300000,
+        expectedMessage: actionMessage("admin-list-linkages", {
+          page: 0,
+          pageSize: 50,
+        }),
+      });
+    });
+
+    it("should filter and paginate linkages", async () => {
+      const { client } = await runtime.usePlugin(
+        "@neargov/discourse-plugin",
+        TEST_CONFIG
+      );
+
+      await client.adminImportLinkages({
+        adminSecret,
+        jsonl: jsonl(
+          ...["page-a.near", "page-b.near", "page-c.near"].map(
+            (nearAccount, index) => ({
+              ...linkage(nearAccount, 200 + index),
+              userApiKey: `${nearAccount}-key`,
+            })
+          )
+        ),
+      });
+
+      const first = await client.adminListLinkages({
+        adminSecret,
+        nearAccount: "page-",
+        pageSize: 2,
+      });
+      expect(first.linkages.map((entry) => entry.nearAccount)).toEqual([
+        "page-a.near",
+        "page-b.near",
+      ]);
+      expect(first).toMatchObject({ total: 3, nextPage: 1 });
+
+      const second = await client.adminListLinkages({
+        adminSecret,
+        nearAccount: "page-",
+        pageSize: 2,
+        page: 1,
+      });
+      expect(second.linkages.map((entry) => entry.nearAccount)).toEqual([
+        "page-c.near",
+      ]);
+      expect(second.nextPage).toBeNull();
+
+      const byUsername = await client.adminListLinkages({
+        adminSecret,
+        discourseUsername: "page-b",
+      });
+      expect(byUsername.linkages).toEqual([linkage("page-b.near", 201)]);
+    });
+
+    it("should report why import lines were skipped", async () => {
+      const { client } = await runtime.usePlugin(
+        "@neargov/discourse-plugin",
+        TEST_CONFIG
+      );
+
+      const result = await client.adminImportLinkages({
+        adminSecret,
+        jsonl: [
+          JSON.stringify({ ...linkage("skip.near", 300), userApiKey: "key" }),
+          "not json",
+          JSON.stringify({ nearAccount: "partial.near" }),
+          JSON.stringify(linkage("keyless.near", 301)),
+          JSON.stringify({ ...linkage("skip.near", 300), userApiKey: "key" }),
+        ].join("\n"),
+      });
+
+      expect(result.imported).toBe(1);
+      expect(result.skipped).toEqual([
+        { line: 2, reason: "Invalid JSON" },
+        { line: 3, reason: expect.stringContaining("discourseUsername") },
+        { line: 4, reason: "Missing userApiKey; export with includeApiKeys" },
+        { line: 5, reason: "Linkage already exists" },
+      ]);
+    });
+
+    it("should refuse a second NEAR account per user when one-to-one", async () => {
+      const { client } = await runtime.usePlugin("@neargov/discourse-plugin", {
+        ...TEST_CONFIG,
+        variables: { ...TEST_CONFIG.variables, linkagePolicy: "one-to-one" },
+      });
+
+      const result = await client.adminImportLinkages({
+        adminSecret,
+        jsonl: jsonl(
+          { ...linkage("first.near", 400), userApiKey: "first-key" },
+          { ...linkage("second.near", 400), userApiKey: "second-key" }
+        ),
+      });
+
+      expect(result).toEqual({
+        imported: 1,
+        skipped: [
+          { line: 2, reason: "Discourse user is already linked to first.near" },
+        ],
+      });
+    });
+
+    it("should export API keys only when asked", async () => {
+      const { client } = await runtime.usePlugin(
+        "@neargov/discourse-plugin",
+        TEST_CONFIG
+      );
+
+      await client.adminImportLinkages({
+        adminSecret,
+        jsonl: jsonl({
+          ...linkage("export.near", 500),
+          userApiKey: "export-key",
+        }),
+      });
+
+      const withoutKeys = await client.adminExportLinkages({ adminSecret });
+      expect(withoutKeys.jsonl).toContain("export.near");
+      expect(withoutKeys.jsonl).not.toContain("export-key");
+
+      const withKeys = await client.adminExportLinkages({
+        adminSecret,
+        includeApiKeys: true,
+      });
+      expect(withKeys.jsonl).toContain("export-key");
+
+      const audit = await client.getAuditLog({
+        adminSecret,
+        action: "admin-export-linkages",
+      });
+      expect(audit.entries.slice(0, 2)).toMatchObject([
+        { actor: "admin-secret", outcome: "success" },
+        { actor: "admin-secret", outcome: "success" },
+      ]);
+    });
+
+    it("should not audit failures from unauthenticated callers", async () => {
+      const { client } = await runtime.usePlugin(
+        "@neargov/discourse-plugin",
+        TEST_CONFIG
+      );
+
+      await expect(
+        client.adminUnlink({
+          adminSecret: "wrong-secret",
+          nearAccount: "x.near",
+        })
+      ).rejects.toMatchObject({ code: "UNAUTHORIZED" });
+      await expect(
+        client.unlink({ authToken: "unsigned-token" })
+      ).rejects.toMatchObject({ code: "UNAUTHORIZED" });
+
+      for (const action of ["admin-unlink", "unlink"] as const) {
+        const audit = await client.getAuditLog({ adminSecret, action });
+        expect(
+          audit.entries.filter((entry) => entry.outcome === "failure")
+        ).toEqual([]);
+      }
+    });
+
+    it("should force-unlink and audit the change", async () => {
+      const { client } = await runtime.usePlugin(
+        "@neargov/discourse-plugin",
+        TEST_CONFIG
+      );
+
+      await client.adminImportLinkages({
+        adminSecret,
+        jsonl: jsonl({
+          ...linkage("imported.near", 99),
+          userApiKey: "imported-key",
+        }),
+      });
+
+      await client.adminUnlink({
+        adminSecret,
+        nearAccount: "imported.near",
+        revoke: false,
+      });
+      expect(
+        await client.getLinkage({ nearAccount: "imported.near" })
+      ).toBeNull();
+
+      const audit = await client.getAuditLog({
+        adminSecret,
+        nearAccount: "imported.near",
+      });
+      expect(audit.entries[0]).toMatchObject({
+        action: "admin-unlink",
+        actor: "admin-secret",
+        discourseUsername: "IMPORTED",
+        outcome: "success",
+      });
+    });
+  });
+
+  describe("webhooks", () => {
+    const sign = (body: string) =>
+      `sha256=${createHmac("sha256", TEST_CONFIG.secrets.webhookSecret)
+        .update(body)
+        .digest("hex")}`;
+
+    it("should reject an invalid signature", async () => {
+      const { client } = await runtime.usePlugin(
+        "@neargov/discourse-plugin",
+        TEST_CONFIG
+      );
+      const body = JSON.stringify({ ping: "OK" });
+
+      await expect(
+        client.forwardWebhook({
+          signature: sign(`${body} `),
+          event: "ping",
+          body,
+        })
+      ).rejects.toThrow();
+    });
+
+    it("should stream verified events to subscribers", async () => {
+      const { client } = await runtime.usePlugin(
+        "@neargov/discourse-plugin",
+        TEST_CONFIG
+      );
+      const controller = new AbortController();
+      const events = await client.streamWebhookEvents(
+        { adminSecret: TEST_CONFIG.secrets.adminSecret, types: ["topic"] },
+        { signal: controller.signal }
+      );
+      const next = events.next();
+      await new Promise((resolve) => setTimeout(resolve, 50));
+
+      const body = JSON.stringify({
+        topic: {
+          id: 7,
+          title: "Governance proposal",
+          slug: "governance-proposal",
+          posts_count: 1,
+          created_at: "2024-01-01T00:00:00.000Z",
+        },
+      });
+      const result = await client.forwardWebhook({
+        signature: sign(body),
+        event: "topic_created",
+        eventId: "1",
+        body,
+      });
+
+      expect(result).toEqual({ received: true, type: "topic" });
+      expect((await next).value).toMatchObject({
+        id: "1",
+        event: "topic_created",
+        type: "topic",
+        topic: { id: 7, title: "Governance proposal" },
+      });
+      controller.abort();
+    });
+  });
 });
@@ -0,0 +1,119 @@
+import { mkdtempSync, readFileSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  AuditLog,
+  createAuditLog,
+  FileAuditSink,
+  MemoryAuditSink,
+  type AuditEvent,
+} from "../../audit";
+
+const event = (overrides: Partial<AuditEvent> = {}): AuditEvent => ({
+  action: "create-post",
+  actor: "alice.near",
+  nearAccount: "alice.near",
+  discourseUsername: "alice",
+  authType: "user-api-key",
+  postId: 42,
+  topicId: 7,
+  outcome: "success",
+  error: null,
+  ...overrides,
+});
+
+describe("AuditLog", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("should stamp entries with an id and timestamp", () => {
+    const log = new AuditLog();
+
+    const entry = log.record(event());
+
+    expect(entry).toMatchObject(event());
+    expect(entry.id).toEqual(expect.any(String));
+    expect(Date.parse(entry.timestamp)).not.toBeNaN();
+  });
+
+  it("should filter by account and action, newest first", () => {
+    const log = new AuditLog();
+    log.record(event({ postId: 1 }));
+    log.record(event({ nearAccount: "bob.near", postId: 2 }));
+    log.record(event({ action: "edit-post", postId: 3 }));
+    log.record(event({ postId: 4 }));
+
+    expect(
+      log.query({ nearAccount: "alice.near" }).map((entry) => entry.postId)
+    ).toEqual([4, 3, 1]);
+    expect(
+      log
+        .query({ nearAccount: "alice.near", action: "create-post" })
+        .map((entry) => entry.postId)
+    ).toEqual([4, 1]);
+  });
+
+  it("should filter by time range", () => {
+    vi.useFakeTimers();
+    const log = new AuditLog();
+
+    vi.setSystemTime(new Date("2024-01-01T00:00:00Z"));
+    log.record(event({ postId: 1 }));
+    vi.setSystemTime(new Date("2024-01-02T00:00:00Z"));
+    log.record(event({ postId: 2 }));
+    vi.setSystemTime(new Date("2024-01-03T00:00:00Z"));
+    log.record(event({ postId: 3 }));
+
+    expect(
+      log
+        .query({
+          from: "2024-01-02T00:00:00.000Z",
+          to: "2024-01-03T00:00:00.000Z",
+        })
+        .map((entry) => entry.postId)
+    ).toEqual([2]);
+  });
+});
+
+describe("MemoryAuditSink", () => {
+  it("should keep only the most recent entries", () => {
+    const log = new AuditLog(new MemoryAuditSink(2));
+    log.record(event({ postId: 1 }));
+    log.record(event({ postId: 2 }));
+    log.record(event({ postId: 3 }));
+
+    expect(log.query({}).map((entry) => entry.postId)).toEqual([3, 2]);
+  });
+});
+
+describe("FileAuditSink", () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "discourse-plugin-"));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("should append one JSON line per entry", () => {
+    const filePath = join(dir, "audit", "audit.jsonl");
+    const log = new AuditLog(new FileAuditSink(filePath));
+
+    log.record(event({ postId: 1 }));
+    log.record(event({ postId: 2, outcome: "failure", error: "boom" }));
+
+    const lines = readFileSync(filePath, "utf8").trim().split("\n");
+    expect(lines).toHaveLength(2);
+    expect(JSON.parse(lines[1])).toMatchObject({ postId: 2, error: "boom" });
+  });
+
+  it("should survive restarts when created for the file backend", () => {
+    createAuditLog("file", dir).record(event());
+
+    expect(createAuditLog("file", dir).query({})).toHaveLength(1);
+  });
+});
@@ -0,0 +1,121 @@
+import { describe, expect, it } from "vitest";
+import { EnvelopeCipher, isEncryptedValue } from "../../encryption";
+import { LinkageStore } from "../../service";
+import { MemoryStorage } from "../../storage";
+
+const CURRENT_KEY = "current-linkage-encryption-key-0123456789";
+const OLD_KEY = "retired-linkage-encryption-key-0123456789";
+
+const linkage = {
+  nearAccount: "test.near",
+  discourseUsername: "testuser",
+  discourseUserId: 123,
+  userApiKey: "secret-user-api-key",
+  verifiedAt: new Date().toISOString(),
+};
+
+describe("EnvelopeCipher", () => {
+  it("should round-trip values", () => {
+    const cipher = new EnvelopeCipher(CURRENT_KEY);
+    const encrypted = cipher.encrypt("secret-user-api-key");
+
+    expect(isEncryptedValue(encrypted)).toBe(true);
+    expect(JSON.stringify(encrypted)).not.toContain("secret-user-api-key");
+    expect(cipher.decrypt(encrypted)).toBe("secret-user-api-key");
+  });
+
+  it("should use a fresh data key for every value", () => {
+    const cipher = new EnvelopeCipher(CURRENT_KEY);
+
+    const first = cipher.encrypt("same");
+    const second = cipher.encrypt("same");
+
+    expect(first.wrappedKey).not.toBe(second.wrappedKey);
+    expect(first.ciphertext).not.toBe(second.ciphertext);
+  });
+
+  it("should decrypt values sealed with a previous key", () => {
+    const encrypted = new EnvelopeCipher(OLD_KEY).encrypt("value");
+    const rotated = new EnvelopeCipher(CURRENT_KEY, [OLD_KEY]);
+
+    expect(rotated.needsRotation(encrypted)).toBe(true);
+    expect(rotated.decrypt(encrypted)).toBe("value");
+  });
+
+  it("should reject values sealed with an unknown key", () => {
+    const encrypted = new EnvelopeCipher(OLD_KEY).encrypt("value");
+
+    expect(() => new EnvelopeCipher(CURRENT_KEY).decrypt(encrypted)).toThrow(
+      /No encryption key configured/
+    );
+  });
+
+  it("should reject tampered ciphertext", () => {
+    const cipher = new EnvelopeCipher(CURRENT_KEY);
+    const encrypted = cipher.encrypt("value");
+    const tampered = {
+      ...encrypted,
+      ciphertext: Buffer.from("other").toString("base64"),
+    };
+
+    expect(() => cipher.decrypt(tampered)).toThrow();
+  });
+});
+
+describe("LinkageStore encryption", () => {
+  it("should never persist the user API key in plaintext", () => {
+    const storage = new MemoryStorage<any>();
+    const store = new LinkageStore(storage, new EnvelopeCipher(CURRENT_KEY));
+
+    store.set("test.near", linkage);
+
+    expect(JSON.stringify(storage.entries())).not.toContain(
+      linkage.userApiKey
+    );
+    expect(store.get("test.near")).toEqual(linkage);
+    expect(store.getAll()).toEqual([linkage]);
+  });
+
+  it("should encrypt legacy plaintext linkages on read", () => {
+    const storage = new MemoryStorage<any>();
+    storage.set("test.near", linkage);
+
+    const store = new LinkageStore(storage, new EnvelopeCipher(CURRENT_KEY));
+
+    expect(store.get("test.near")).toEqual(linkage);
+    expect(isEncryptedValue(storage.get("test.near").userApiKey)).toBe(true);
+  });
+
+  it("should re-encrypt linkages sealed with a rotated key", () => {
+    const storage = new MemoryStorage<any>();
+    new LinkageStore(storage, new EnvelopeCipher(OLD_KEY)).set(
+      "test.near",
+      linkage
+    );
+
+    const rotated = new EnvelopeCipher(CURRENT_KEY, [OLD_KEY]);
+    const store = new LinkageStore(storage, rotated);
+
+    expect(store.get("test.near")).toEqual(linkage);
+    expect(rotated.needsRotation(storage.get("test.near").userApiKey)).toBe(
+      false
+    );
+    expect(
+      new LinkageStore(storage, new EnvelopeCipher(CURRENT_KEY)).get(
+        "test.near"
+      )
+    ).toEqual(linkage);
+  });
+
+  it("should refuse to read encrypted linkages without a cipher", () => {
+    const storage = new MemoryStorage<any>();
+    new LinkageStore(storage, new EnvelopeCipher(CURRENT_KEY)).set(
+      "test.near",
+      linkage
+    );
+
+    expect(() => new LinkageStore(storage).get("test.near")).toThrow(
+      /no encryption key is configured/
+    );
+  });
+});
@@ -0,0 +1,187 @@
+import { Effect } from "every-plugin/effect";
+import { createORPCErrorConstructorMap } from "every-plugin/orpc";
+import { describe, expect, it } from "vitest";
+import { ContractErrors } from "../../contract";
+import {
+  DecryptionError,
+  discourseApiError,
+  DiscourseApiError,
+  DiscourseNetworkError,
+  DiscourseResponseError,
+  NearVerificationError,
+  runEffect,
+  toPluginError,
+} from "../../errors";
+
+const errors = createORPCErrorConstructorMap(ContractErrors);
+
+const apiError = (status: number, extra: { retryAfter?: number } = {}) =>
+  new DiscourseApiError({
+    status,
+    message: `failed with ${status}`,
+    errors: ["Title is too short"],
+    ...extra,
+  });
+
+describe("discourseApiError", () => {
+  it("should collect Discourse's errors array", () => {
+    const error = discourseApiError(
+      "POST",
+      "/posts.json",
+      Response.json({ errors: ["Title is too short"] }, { status: 422 }),
+      JSON.stringify({ errors: ["Title is too short"] })
+    );
+
+    expect(error.status).toBe(422);
+    expect(error.errors).toEqual(["Title is too short"]);
+    expect(error.message).toBe(
+      "POST /posts.json failed with 422: Title is too short"
+    );
+  });
+
+  it("should prefer the Retry-After header", () => {
+    const error = discourseApiError(
+      "GET",
+      "/latest.json",
+      new Response("", { status: 429, headers: { "Retry-After": "30" } }),
+      JSON.stringify({ extras: { wait_seconds: 5 } })
+    );
+
+    expect(error.retryAfter).toBe(30);
+  });
+
+  it("should tolerate non-JSON bodies", () => {
+    const error = discourseApiError(
+      "GET",
+      "/latest.json",
+      new Response("", { status: 502 }),
+      "<html>Bad Gateway</html>"
+    );
+
+    expect(error.errors).toEqual([]);
+    expect(error.retryAfter).toBeUndefined();
+  });
+});
+
+describe("toPluginError", () => {
+  it.each([
+    [400, "BAD_REQUEST"],
+    [422, "BAD_REQUEST"],
+    [401, "UNAUTHORIZED"],
+    [403, "FORBIDDEN"],
+    [404, "NOT_FOUND"],
+    [429, "RATE_LIMITED"],
+    [500, "SERVICE_UNAVAILABLE"],
+    [503, "SERVICE_UNAVAILABLE"],
+  ])("should map Discourse %i to %s", (status, code) => {
+    expect(toPluginError(apiError(status), errors).code).toBe(code);
+  });
+
+  it("should keep Discourse's messages on validation failures", () => {
+    const error = toPluginError(apiError(422), errors);
+
+    expect(error.data).toEqual({
+      validationErrors: [{ field: "discourse", message: "Title is too short" }],
+    });
+  });
+
+  it("should keep Discourse's messages on every mapped status", () => {
+    for (const status of [401, 403, 404, 429, 503]) {
+      expect(toPluginError(apiError(status), errors).data).toMatchObject({
+        validationErrors: [
+          { field: "discourse", message: "Title is too short" },
+        ],
+      });
+    }
+  });
+
+  it("should pass through the retry hint on rate limits", () => {
+    const error = toPluginError(apiError(429, { retryAfter: 12 }), errors);
+
+    expect(error.data).toMatchObject({ retryAfter: 12 });
+  });
+
+  it("should send rate limits as HTTP 429", () => {
+    expect(toPluginError(apiError(429), errors).status).toBe(429);
+  });
+
+  it.each([
+    [0, 1],
+    [30.5, 31],
+  ])("should round a retry hint of %ss up to %ss", (retryAfter, expected) => {
+    const error = toPluginError(apiError(429, { retryAfter }), errors);
+
+    expect(error.data).toMatchObject({ retryAfter: expected });
+    expect(ContractErrors.RATE_LIMITED.data.safeParse(error.data).success).toBe(
+      true
+    );
+  });
+
+  it("should map bad NEAR signatures to UNAUTHORIZED", () => {
+    const error = toPluginError(
+      new NearVerificationError({ message: "bad signature" }),
+      errors
+    );
+
+    expect(error.code).toBe("UNAUTHORIZED");
+    expect(error.data).toMatchObject({ provider: "near", authType: "token" });
+  });
+
+  it("should map decryption failures to BAD_REQUEST", () => {
+    const error = toPluginError(
+      new DecryptionError({ reason: "wrong_key", message: "wrong key" }),
+      errors
+    );
+
+    expect(error.code).toBe("BAD_REQUEST");
+    expect(error.data).toEqual({ invalidFields: ["payload"] });
+  });
+
+  it("should not reveal why a payload could not be decrypted", () => {
+    const messages = (["invalid_base64", "wrong_key", "invalid_json"] as const)
+      .map((reason) => new DecryptionError({ reason, message: reason }))
+      .map((error) => toPluginError(error, errors).message);
+
+    expect(new Set(messages).size).toBe(1);
+  });
+
+  it("should map unreachable Discourse to SERVICE_UNAVAILABLE", () => {
+    const error = toPluginError(
+      new DiscourseNetworkError({ message: "timeout" }),
+      errors
+    );
+
+    expect(error.code).toBe("SERVICE_UNAVAILABLE");
+  });
+
+  it("should map malformed Discourse responses to SERVICE_UNAVAILABLE", () => {
+    const error = toPluginError(
+      new DiscourseResponseError({
+        status: 200,
+        message: "GET /latest.json returned invalid JSON",
+      }),
+      errors
+    );
+
+    expect(error.code).toBe("SERVICE_UNAVAILABLE");
+    expect(error.status).toBe(503);
+  });
+});
+
+describe("runEffect", () => {
+  it("should resolve successful effects", async () => {
+    expect(await runEffect(Effect.succeed(1), errors)).toBe(1);
+  });
+
+  it("should throw typed errors for tagged failures", async () => {
+    await expect(
+      runEffect(Effect.fail(apiError(404)), errors)
+    ).rejects.toMatchObject({ code: "NOT_FOUND" });
+  });
+
+  it("should rethrow unknown failures unchanged", async () => {
+    const failure = new Error("boom");
+
+    await expect(runEffect(Effect.fail(failure), errors)).rejects.toBe(failure);
+  });
+});
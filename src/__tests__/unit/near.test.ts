@@ -0,0 +1,193 @@
+import { Effect } from "every-plugin/effect";
+import { parseAuthToken, verify } from "near-sign-verify";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { actionMessage, NEARService, ProvenanceStore } from "../../service";
+import { MemoryStorage } from "../../storage";
+
+vi.mock("near-sign-verify", () => ({
+  verify: vi.fn(),
+  parseAuthToken: vi.fn(),
+}));
+
+const mockToken = (publicKey: string, nonce: number[], message = "signed") => {
+  vi.mocked(verify).mockResolvedValue({
+    accountId: "alice.near",
+    message,
+    publicKey,
+  });
+  vi.mocked(parseAuthToken).mockReturnValue({
+    accountId: "alice.near",
+    publicKey,
+    signature: "signature",
+    message,
+    nonce,
+    recipient: "social.near",
+    callbackUrl: null,
+    state: null,
+  });
+};
+
+describe("NEARService", () => {
+  let service: NEARService;
+
+  beforeEach(() => {
+    service = new NEARService("social.near");
+  });
+
+  afterEach(() => {
+    vi.resetAllMocks();
+  });
+
+  it("should return the signing account", async () => {
+    mockToken("ed25519:alice", [1, 2, 3]);
+
+    const accountId = await Effect.runPromise(
+      service.verifySignature("token", 300000)
+    );
+
+    expect(accountId).toBe("alice.near");
+    expect(verify).toHaveBeenCalledWith("token", {
+      expectedRecipient: "social.near",
+      nonceMaxAge: 300000,
+    });
+  });
+
+  it("should require the action-bound message when given", async () => {
+    mockToken("ed25519:alice", [1, 2, 3]);
+    const message = actionMessage("delete-post", { postId: 42 });
+
+    await Effect.runPromise(service.verifySignature("token", 300000, message));
+
+    expect(verify).toHaveBeenCalledWith("token", {
+      expectedRecipient: "social.near",
+      nonceMaxAge: 300000,
+      expectedMessage: message,
+    });
+  });
+
+  it("should reject a token whose nonce was already used", async () => {
+    mockToken("ed25519:alice", [1, 2, 3]);
+
+    await Effect.runPromise(service.verifySignature("token", 300000));
+    const error = await Effect.runPromise(
+      Effect.flip(service.verifySignature("token", 300000))
+    );
+
+    expect(error._tag).toBe("NearVerificationError");
+    expect(error.message).toContain("already been used");
+  });
+
+  it("should accept fresh nonces from the same key", async () => {
+    mockToken("ed25519:alice", [1, 2, 3]);
+    await Effect.runPromise(service.verifySignature("first", 300000));
+
+    mockToken("ed25519:alice", [4, 5, 6]);
+    const accountId = await Effect.runPromise(
+      service.verifySignature("second", 300000)
+    );
+
+    expect(accountId).toBe("alice.near");
+  });
+
+  it("should not mark nonces of rejected tokens as used", async () => {
+    mockToken("ed25519:alice", [1, 2, 3]);
+    vi.mocked(verify).mockRejectedValueOnce(new Error("message mismatch"));
+
+    await Effect.runPromise(
+      Effect.flip(service.verifySignature("token", 300000, "other"))
+    );
+    const accountId = await Effect.runPromise(
+      service.verifySignature("token", 300000)
+    );
+
+    expect(accountId).toBe("alice.near");
+  });
+
+  it("should forget used nonces once they expire", () => {
+    const usedNonces = new MemoryStorage<number>();
+    usedNonces.set("expired", Date.now() - 1);
+    usedNonces.set("active", Date.now() + 60000);
+
+    new NEARService("social.near", usedNonces).cleanup();
+
+    expect(usedNonces.entries().map(([key]) => key)).toEqual(["active"]);
+  });
+});
+
+describe("actionMessage", () => {
+  it("should not depend on parameter order or undefined values", () => {
+    expect(
+      actionMessage("create-post", {
+        title: "Title",
+        raw: "Body",
+        category: undefined,
+      })
+    ).toBe(actionMessage("create-post", { raw: "Body", title: "Title" }));
+  });
+
+  it("should differ between actions and parameters", () => {
+    const message = actionMessage("delete-post", { postId: 1 });
+
+    expect(message).toMatch(/^discourse:delete-post:[0-9a-f]{64}$/);
+    expect(actionMessage("delete-post", { postId: 2 })).not.toBe(message);
+    expect(actionMessage("edit-post", { postId: 1 })).not.toBe(message);
+  });
+});
+
+describe("ProvenanceStore", () => {
+  const raw = "This is a test post content that is long enough.";
+  const signedParams = { title: "Test Post Title Here", category: 5 };
+
+  const recordPost = (store: ProvenanceStore) => {
+    mockToken(
+      "ed25519:alice",
+      [1, 2, 3],
+      actionMessage("create-post", { ...signedParams, raw })
+    );
+
+    store.record({
+      postId: 42,
+      nearAccount: "alice.near",
+      action: "create-post",
+      signedParams,
+      authToken: "token",
+    });
+  };
+
+  afterEach(() => {
+    vi.resetAllMocks();
+  });
+
+  it("should confirm unchanged content", () => {
+    const store = new ProvenanceStore();
+    recordPost(store);
+
+    expect(store.verify(42, raw)).toMatchObject({
+      postId: 42,
+      nearAccount: "alice.near",
+      action: "create-post",
+      publicKey: "ed25519:alice",
+      signature: "signature",
+      nonce: Buffer.from([1, 2, 3]).toString("base64"),
+      recipient: "social.near",
+      callbackUrl: null,
+      contentMatches: true,
+    });
+    expect(store.verify(42, raw)).not.toHaveProperty("authToken");
+  });
+
+  it("should flag content changed after signing", () => {
+    const store = new ProvenanceStore();
+    recordPost(store);
+
+    expect(store.verify(42, `${raw} Edited.`)?.contentMatches).toBe(false);
+    expect(store.verify(42, undefined)?.contentMatches).toBe(false);
+  });
+
+  it("should return null for posts without provenance", () => {
+    const store = new ProvenanceStore();
+
+    expect(store.has(42)).toBe(false);
+    expect(store.verify(42, raw)).toBeNull();
+  });
+});
@@ -0,0 +1,69 @@
+import { describe, expect, it } from "vitest";
+import { DuplicateContentDetector, RateLimiter } from "../../rate-limit";
+
+describe("RateLimiter", () => {
+  it("should allow hits up to the limit", () => {
+    const limiter = new RateLimiter(2, 1000);
+
+    expect(limiter.check("alice.near", 0)).toEqual({
+      allowed: true,
+      remaining: 2,
+    });
+    limiter.hit("alice.near", 0);
+    limiter.hit("alice.near", 100);
+
+    expect(limiter.check("alice.near", 200)).toEqual({
+      allowed: false,
+      retryAfterMs: 800,
+      resetAt: 1000,
+    });
+  });
+
+  it("should free capacity as hits leave the window", () => {
+    const limiter = new RateLimiter(1, 1000);
+    limiter.hit("alice.near", 0);
+
+    expect(limiter.check("alice.near", 999).allowed).toBe(false);
+    expect(limiter.check("alice.near", 1000).allowed).toBe(true);
+  });
+
+  it("should track keys independently", () => {
+    const limiter = new RateLimiter(1, 1000);
+    limiter.hit("alice.near", 0);
+
+    expect(limiter.check("bob.near", 0).allowed).toBe(true);
+  });
+
+  it("should be disabled with a limit of 0", () => {
+    const limiter = new RateLimiter(0, 1000);
+    limiter.hit("alice.near", 0);
+
+    expect(limiter.check("alice.near", 0).allowed).toBe(true);
+  });
+});
+
+describe("DuplicateContentDetector", () => {
+  it("should flag the same body from the same account", () => {
+    const detector = new DuplicateContentDetector(1000);
+    detector.remember("alice.near", "Hello   world\n", 0);
+
+    expect(detector.isDuplicate("alice.near", "Hello world", 500)).toBe(true);
+    expect(detector.isDuplicate("bob.near", "Hello world", 500)).toBe(false);
+    expect(detector.isDuplicate("alice.near", "Hello there", 500)).toBe(false);
+  });
+
+  it("should forget bodies after the window", () => {
+    const detector = new DuplicateContentDetector(1000);
+    detector.remember("alice.near", "Hello world", 0);
+    detector.cleanup(1000);
+
+    expect(detector.isDuplicate("alice.near", "Hello world", 1000)).toBe(false);
+  });
+
+  it("should be disabled with a window of 0", () => {
+    const detector = new DuplicateContentDetector(0);
+    detector.remember("alice.near", "Hello world", 0);
+
+    expect(detector.isDuplicate("alice.near", "Hello world", 0)).toBe(false);
+  });
+});
@@ -1,12 +1,20 @@
+import { constants, publicEncrypt } from "crypto";
 import { Effect } from "every-plugin/effect";
-import { describe, expect, it } from "vitest";
+import { afterEach, describe, expect, it, vi } from "vitest";
 import {
   DiscourseService,
   CryptoService,
   NEARService,
   NonceManager,
   LinkageStore,
+  missingScopes,
 } from "../../service";
+import { MemoryStorage } from "../../storage";
+import {
+  FIXTURE_NON_JSON_PAYLOAD,
+  FIXTURE_PAYLOAD,
+  FIXTURE_PRIVATE_KEY,
+} from "../fixtures/user-api-key-payload";
 
 describe("DiscourseService", () => {
   const service = new DiscourseService(
@@ -15,6 +23,12 @@ describe("DiscourseService", () => {
     "system"
   );
 
+  const userAuth = {
+    type: "user-api-key",
+    userApiKey: "alice-user-key",
+    username: "alice",
+  } as const;
+
   describe("generateAuthUrl", () => {
     it("should generate valid auth URL", async () => {
       const result = await Effect.runPromise(
@@ -33,6 +47,1137 @@ describe("DiscourseService", () => {
       expect(result).toContain("nonce=test-nonce");
       expect(result).toContain("scopes=read%2Cwrite");
     });
+
+    it("should request the given scopes", async () => {
+      const result = await Effect.runPromise(
+        service.generateAuthUrl({
+          clientId: "test-client",
+          applicationName: "Test App",
+          nonce: "test-nonce",
+          publicKey: "key",
+          scopes: ["read", "notifications", "session_info"],
+        })
+      );
+
+      expect(result).toContain("scopes=read%2Cnotifications%2Csession_info");
+    });
+  });
+
+  describe("revokeUserApiKey", () => {
+    afterEach(() => {
+      vi.unstubAllGlobals();
+    });
+
+    it("should revoke the key with the user's credentials", async () => {
+      const fetchMock = vi.fn().mockResolvedValue(new Response("{}"));
+      vi.stubGlobal("fetch", fetchMock);
+
+      await Effect.runPromise(service.revokeUserApiKey("user-key"));
+
+      expect(fetchMock).toHaveBeenCalledWith(
+        "https://discuss.near.vote/user-api-key/revoke",
+        expect.objectContaining({
+          method: "POST",
+          headers: { "User-Api-Key": "user-key" },
+        })
+      );
+    });
+
+    it("should fail when Discourse rejects the revocation", async () => {
+      vi.stubGlobal(
+        "fetch",
+        vi.fn().mockResolvedValue(new Response("", { status: 403 }))
+      );
+
+      const error = await Effect.runPromise(
+        Effect.flip(service.revokeUserApiKey("user-key"))
+      );
+
+      expect(error).toMatchObject({ _tag: "DiscourseApiError", status: 403 });
+    });
+  });
+
+  describe("createReply", () => {
+    afterEach(() => {
+      vi.unstubAllGlobals();
+    });
+
+    it("should post to the topic as the linked user", async () => {
+      const fetchMock = vi.fn().mockResolvedValue(
+        Response.json({
+          id: 42,
+          topic_id: 7,
+          topic_slug: "proposal-thread",
+          post_number: 3,
+        })
+      );
+      vi.stubGlobal("fetch", fetchMock);
+
+      const result = await Effect.runPromise(
+        service.createReply({
+          topicId: 7,
+          raw: "This is a reply that is long enough.",
+          replyToPostNumber: 2,
+          auth: userAuth,
+        })
+      );
+
+      expect(result).toEqual({
+        id: 42,
+        topic_id: 7,
+        topic_slug: "proposal-thread",
+        post_number: 3,
+      });
+
+      const [url, init] = fetchMock.mock.calls[0];
+      expect(url).toBe("https://discuss.near.vote/posts.json");
+      expect(init.headers["User-Api-Key"]).toBe("alice-user-key");
+      expect(init.headers["Api-Key"]).toBeUndefined();
+      expect(JSON.parse(init.body)).toEqual({
+        topic_id: 7,
+        raw: "This is a reply that is long enough.",
+        reply_to_post_number: 2,
+      });
+    });
+  });
+
+  describe("editPost", () => {
+    afterEach(() => {
+      vi.unstubAllGlobals();
+    });
+
+    it("should send the new content with the edit reason", async () => {
+      const fetchMock = vi.fn().mockResolvedValue(
+        Response.json({
+          post: { id: 42, topic_id: 7, topic_slug: "thread", post_number: 1 },
+        })
+      );
+      vi.stubGlobal("fetch", fetchMock);
+
+      const result = await Effect.runPromise(
+        service.editPost({
+          postId: 42,
+          raw: "Updated content that is long enough.",
+          editReason: "typo",
+          auth: userAuth,
+        })
+      );
+
+      expect(result).toEqual({
+        id: 42,
+        topic_id: 7,
+        topic_slug: "thread",
+        post_number: 1,
+      });
+
+      const [url, init] = fetchMock.mock.calls[0];
+      expect(url).toBe("https://discuss.near.vote/posts/42.json");
+      expect(init.method).toBe("PUT");
+      expect(init.headers["User-Api-Key"]).toBe("alice-user-key");
+      expect(JSON.parse(init.body)).toEqual({
+        post: {
+          raw: "Updated content that is long enough.",
+          edit_reason: "typo",
+        },
+      });
+    });
+  });
+
+  describe("deletePost", () => {
+    afterEach(() => {
+      vi.unstubAllGlobals();
+    });
+
+    it("should delete the post as the linked user", async () => {
+      const fetchMock = vi.fn().mockResolvedValue(new Response(null));
+      vi.stubGlobal("fetch", fetchMock);
+
+      await Effect.runPromise(
+        service.deletePost({ postId: 42, auth: userAuth })
+      );
+
+      const [url, init] = fetchMock.mock.calls[0];
+      expect(url).toBe("https://discuss.near.vote/posts/42.json");
+      expect(init.method).toBe("DELETE");
+      expect(init.headers).toEqual({ "User-Api-Key": "alice-user-key" });
+    });
+
+    it("should impersonate with the system key when configured", async () => {
+      const fetchMock = vi.fn().mockResolvedValue(new Response(null));
+      vi.stubGlobal("fetch", fetchMock);
+
+      await Effect.runPromise(
+        service.deletePost({
+          postId: 42,
+          auth: { type: "impersonate", username: "alice" },
+        })
+      );
+
+      expect(fetchMock.mock.calls[0][1].headers).toEqual({
+        "Api-Key": "test-api-key",
+        "Api-Username": "alice",
+      });
+    });
+
+    it("should surface Discourse's error messages", async () => {
+      vi.stubGlobal(
+        "fetch",
+        vi.fn().mockResolvedValue(
+          Response.json(
+            {
+              errors: ["You are not permitted to view the requested resource."],
+            },
+            { status: 403 }
+          )
+        )
+      );
+
+      const error = await Effect.runPromise(
+        Effect.flip(service.deletePost({ postId: 42, auth: userAuth }))
+      );
+
+      expect(error).toMatchObject({
+        _tag: "DiscourseApiError",
+        status: 403,
+        errors: ["You are not permitted to view the requested resource."],
+      });
+    });
+
+    it("should read the retry hint from rate limit responses", async () => {
+      vi.stubGlobal(
+        "fetch",
+        vi.fn().mockResolvedValue(
+          Response.json(
+            {
+              errors: ["You’ve performed this action too many times."],
+              extras: { wait_seconds: 12 },
+            },
+            { status: 429 }
+          )
+        )
+      );
+
+      const error = await Effect.runPromise(
+        Effect.flip(service.deletePost({ postId: 42, auth: userAuth }))
+      );
+
+      expect(error).toMatchObject({ status: 429, retryAfter: 12 });
+    });
+  });
+
+  describe("read APIs", () => {
+    const rawPost = {
+      id: 42,
+      topic_id: 7,
+      post_number: 1,
+      username: "alice",
+      name: "Alice",
+      avatar_template: "/user_avatar/alice/{size}/1.png",
+      raw: "Hello world",
+      cooked: "<p>Hello world</p>",
+      reply_to_post_number: null,
+      reply_count: 0,
+      created_at: "2024-01-01T00:00:00.000Z",
+      updated_at: "2024-01-01T00:00:00.000Z",
+    };
+
+    const rawTopic = {
+      id: 7,
+      title: "Proposal discussion",
+      slug: "proposal-discussion",
+      category_id: 5,
+      posts_count: 1,
+      views: 10,
+      like_count: 2,
+      pinned: false,
+      closed: false,
+      archived: false,
+      created_at: "2024-01-01T00:00:00.000Z",
+      last_posted_at: "2024-01-02T00:00:00.000Z",
+    };
+
+    afterEach(() => {
+      vi.unstubAllGlobals();
+    });
+
+    it("should map a post fetched without credentials", async () => {
+      const fetchMock = vi.fn().mockResolvedValue(Response.json(rawPost));
+      vi.stubGlobal("fetch", fetchMock);
+
+      const post = await Effect.runPromise(service.getPost(42));
+
+      expect(post).toMatchObject({
+        id: 42,
+        topicId: 7,
+        postNumber: 1,
+        username: "alice",
+        raw: "Hello world",
+        replyToPostNumber: null,
+      });
+      // Anonymous, so Discourse hides private messages and restricted posts
+      expect(fetchMock.mock.calls[0][1].headers).toEqual({});
+    });
+
+    it("should fetch a post as the user when given their credentials", async () => {
+      const fetchMock = vi.fn().mockResolvedValue(Response.json(rawPost));
+      vi.stubGlobal("fetch", fetchMock);
+
+      await Effect.runPromise(service.getPost(42, userAuth));
+
+      expect(fetchMock.mock.calls[0][1].headers).toEqual({
+        "User-Api-Key": "alice-user-key",
+      });
+    });
+
+    it("should reject a response that is not a post", async () => {
+      vi.stubGlobal(
+        "fetch",
+        vi.fn().mockResolvedValue(Response.json({ ...rawPost, id: "42" }))
+      );
+
+      const error = await Effect.runPromise(Effect.flip(service.getPost(42)));
+
+      expect(error).toMatchObject({
+        _tag: "DiscourseResponseError",
+        message: "GET /posts/42.json returned an unexpected response",
+      });
+    });
+
+    it("should return a topic page with its posts", async () => {
+      const fetchMock = vi.fn().mockResolvedValue(
+        Response.json({
+          ...rawTopic,
+          highest_post_number: 1,
+          post_stream: { posts: [rawPost] },
+        })
+      );
+      vi.stubGlobal("fetch", fetchMock);
+
+      const topic = await Effect.runPromise(
+        service.getTopic({ topicId: 7, page: 0 })
+      );
+
+      expect(fetchMock.mock.calls[0][0]).toBe(
+        "https://discuss.near.vote/t/7.json?page=1"
+      );
+      expect(topic.title).toBe("Proposal discussion");
+      expect(topic.posts).toHaveLength(1);
+      expect(topic.nextPage).toBeNull();
+    });
+
+    it("should report the next page of latest topics", async () => {
+      const fetchMock = vi.fn().mockResolvedValue(
+        Response.json({
+          topic_list: {
+            topics: [rawTopic],
+            more_topics_url: "/latest?page=2",
+          },
+        })
+      );
+      vi.stubGlobal("fetch", fetchMock);
+
+      const list = await Effect.runPromise(
+        service.listLatestTopics({ page: 1 })
+      );
+
+      expect(fetchMock.mock.calls[0][0]).toBe(
+        "https://discuss.near.vote/latest.json?page=1"
+      );
+      expect(list.topics[0]).toMatchObject({ id: 7, categoryId: 5 });
+      expect(list.nextPage).toBe(2);
+    });
+
+    it("should list topics for a category", async () => {
+      const fetchMock = vi
+        .fn()
+        .mockResolvedValue(Response.json({ topic_list: { topics: [] } }));
+      vi.stubGlobal("fetch", fetchMock);
+
+      const list = await Effect.runPromise(
+        service.listCategoryTopics({ categoryId: 5, page: 0 })
+      );
+
+      expect(fetchMock.mock.calls[0][0]).toBe(
+        "https://discuss.near.vote/c/5.json?page=0"
+      );
+      expect(list).toEqual({ topics: [], nextPage: null });
+    });
+  });
+
+  describe("categories", () => {
+    const categoriesResponse = () =>
+      Response.json({
+        category_list: {
+          categories: [
+            {
+              id: 1,
+              name: "Governance",
+              slug: "governance",
+              description_text: "Governance talk",
+              color: "0088CC",
+              topic_count: 12,
+              read_restricted: false,
+              permission: 1,
+              subcategory_list: [
+                {
+                  id: 2,
+                  name: "Proposals",
+                  slug: "proposals",
+                  color: "BF1E2E",
+                  parent_category_id: 1,
+                  topic_count: 4,
+                  permission: 1,
+                },
+              ],
+            },
+            {
+              id: 3,
+              name: "Announcements",
+              slug: "announcements",
+              color: "F1592A",
+              topic_count: 1,
+              permission: 3,
+            },
+          ],
+        },
+      });
+
+    afterEach(() => {
+      vi.unstubAllGlobals();
+    });
+
+    it("should map categories with subcategories and cache them", async () => {
+      const fetchMock = vi
+        .fn()
+        .mockImplementation(async () => categoriesResponse());
+      vi.stubGlobal("fetch", fetchMock);
+      const cachedService = new DiscourseService(
+        "https://discuss.near.vote",
+        "test-api-key",
+        "system"
+      );
+
+      const categories = await Effect.runPromise(cachedService.getCategories());
+      await Effect.runPromise(cachedService.getCategories());
+
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+      // Anonymous, so staff-only and private categories stay hidden
+      expect(fetchMock.mock.calls[0][1].headers).toEqual({});
+      expect(categories[0]).toMatchObject({
+        id: 1,
+        slug: "governance",
+        permission: "full",
+        subcategories: [{ id: 2, slug: "proposals", parentCategoryId: 1 }],
+      });
+      expect(categories[1].permission).toBe("readonly");
+    });
+
+    it("should resolve categories by id, slug and parent/child path", async () => {
+      const fetchMock = vi
+        .fn()
+        .mockImplementation(async () => categoriesResponse());
+      vi.stubGlobal("fetch", fetchMock);
+      const resolver = new DiscourseService(
+        "https://discuss.near.vote",
+        "test-api-key",
+        "system"
+      );
+      const resolve = (category: number | string) =>
+        Effect.runPromise(resolver.resolveCategory(category, userAuth));
+
+      expect(await resolve(2)).toBe(2);
+      expect(await resolve("governance")).toBe(1);
+      expect(await resolve("proposals")).toBe(2);
+      expect(await resolve("governance/proposals")).toBe(2);
+      expect(await resolve("unknown")).toBeNull();
+      expect(await resolve(99)).toBeNull();
+      expect(await resolve("announcements")).toBeNull();
+      // Permissions are the acting user's, and fetched once for them
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+      expect(fetchMock.mock.calls[0][1].headers).toEqual({
+        "User-Api-Key": "alice-user-key",
+      });
+    });
+  });
+
+  describe("health checks", () => {
+    afterEach(() => {
+      vi.unstubAllGlobals();
+    });
+
+    it("should measure latency to the public endpoint", async () => {
+      const fetchMock = vi.fn().mockResolvedValue(Response.json({}));
+      vi.stubGlobal("fetch", fetchMock);
+
+      const latency = await Effect.runPromise(service.checkConnectivity(1000));
+
+      expect(fetchMock.mock.calls[0][0]).toBe(
+        "https://discuss.near.vote/site/basic-info.json"
+      );
+      expect(latency).toBeGreaterThanOrEqual(0);
+    });
+
+    it("should fail the connectivity check on network errors", async () => {
+      vi.stubGlobal(
+        "fetch",
+        vi.fn().mockRejectedValue(new TypeError("fetch failed"))
+      );
+
+      const error = await Effect.runPromise(
+        Effect.flip(service.checkConnectivity(1000))
+      );
+
+      expect(error._tag).toBe("DiscourseNetworkError");
+      expect(error.message).toContain("fetch failed");
+    });
+
+    it("should validate the system API key", async () => {
+      vi.stubGlobal(
+        "fetch",
+        vi
+          .fn()
+          .mockResolvedValueOnce(
+            Response.json({ current_user: { username: "system" } })
+          )
+          .mockResolvedValueOnce(new Response("", { status: 404 }))
+      );
+
+      expect(await Effect.runPromise(service.validateSystemApiKey(1000))).toBe(
+        true
+      );
+      expect(await Effect.runPromise(service.validateSystemApiKey(1000))).toBe(
+        false
+      );
+    });
+
+    it("should read the Discourse version", async () => {
+      vi.stubGlobal(
+        "fetch",
+        vi
+          .fn()
+          .mockResolvedValue(Response.json({ about: { version: "3.2.1" } }))
+      );
+
+      expect(await Effect.runPromise(service.getVersion(1000))).toBe("3.2.1");
+    });
+  });
+
+  describe("private messages", () => {
+    afterEach(() => {
+      vi.unstubAllGlobals();
+    });
+
+    it("should post a private message to the recipients", async () => {
+      const fetchMock = vi
+        .fn()
+        .mockResolvedValue(
+          Response.json({ id: 50, topic_id: 9, topic_slug: "coordination" })
+        );
+      vi.stubGlobal("fetch", fetchMock);
+
+      const result = await Effect.runPromise(
+        service.sendPrivateMessage({
+          title: "Coordination",
+          raw: "Let's sync before the vote.",
+          recipients: ["bob", "carol"],
+          auth: userAuth,
+        })
+      );
+
+      expect(result).toEqual({
+        id: 50,
+        topic_id: 9,
+        topic_slug: "coordination",
+      });
+
+      const [url, init] = fetchMock.mock.calls[0];
+      expect(url).toBe("https://discuss.near.vote/posts.json");
+      expect(init.headers["User-Api-Key"]).toBe("alice-user-key");
+      expect(JSON.parse(init.body)).toEqual({
+        title: "Coordination",
+        raw: "Let's sync before the vote.",
+        archetype: "private_message",
+        target_recipients: "bob,carol",
+      });
+    });
+
+    it("should list the inbox and sent folders as the user", async () => {
+      const fetchMock = vi.fn().mockImplementation(async () =>
+        Response.json({
+          topic_list: {
+            topics: [
+              {
+                id: 9,
+                title: "Coordination",
+                slug: "coordination",
+                posts_count: 1,
+                created_at: "2024-01-01T00:00:00.000Z",
+              },
+            ],
+          },
+        })
+      );
+      vi.stubGlobal("fetch", fetchMock);
+
+      const inbox = await Effect.runPromise(
+        service.listPrivateMessages({
+          folder: "inbox",
+          page: 0,
+          auth: userAuth,
+        })
+      );
+      await Effect.runPromise(
+        service.listPrivateMessages({ folder: "sent", page: 1, auth: userAuth })
+      );
+
+      expect(inbox.topics.map((topic) => topic.id)).toEqual([9]);
+      expect(inbox.nextPage).toBeNull();
+      expect(fetchMock.mock.calls[0][0]).toBe(
+        "https://discuss.near.vote/topics/private-messages/alice.json?page=0"
+      );
+      expect(fetchMock.mock.calls[1][0]).toBe(
+        "https://discuss.near.vote/topics/private-messages-sent/alice.json?page=1"
+      );
+      expect(fetchMock.mock.calls[0][1].headers["User-Api-Key"]).toBe(
+        "alice-user-key"
+      );
+    });
+  });
+
+  describe("likes and reactions", () => {
+    const likedPost = {
+      id: 42,
+      actions_summary: [{ id: 2, count: 5, acted: true, can_undo: true }],
+    };
+
+    afterEach(() => {
+      vi.unstubAllGlobals();
+    });
+
+    it("should like a post and return the updated count", async () => {
+      const fetchMock = vi.fn().mockResolvedValue(Response.json(likedPost));
+      vi.stubGlobal("fetch", fetchMock);
+
+      const result = await Effect.runPromise(
+        service.likePost({ postId: 42, auth: userAuth })
+      );
+
+      expect(result).toEqual({
+        postId: 42,
+        likeCount: 5,
+        liked: true,
+        reactions: [],
+        currentUserReaction: null,
+      });
+      const [url, init] = fetchMock.mock.calls[0];
+      expect(url).toBe("https://discuss.near.vote/post_actions.json");
+      expect(init.headers["User-Api-Key"]).toBe("alice-user-key");
+      expect(JSON.parse(init.body)).toEqual({ id: 42, post_action_type_id: 2 });
+    });
+
+    it("should remove a like", async () => {
+      const fetchMock = vi.fn().mockResolvedValue(
+        Response.json({
+          id: 42,
+          actions_summary: [{ id: 2, count: 4, can_act: true }],
+        })
+      );
+      vi.stubGlobal("fetch", fetchMock);
+
+      const result = await Effect.runPromise(
+        service.unlikePost({ postId: 42, auth: userAuth })
+      );
+
+      expect(result).toMatchObject({ likeCount: 4, liked: false });
+      expect(fetchMock.mock.calls[0][0]).toBe(
+        "https://discuss.near.vote/post_actions/42.json?post_action_type_id=2"
+      );
+      expect(fetchMock.mock.calls[0][1].method).toBe("DELETE");
+    });
+
+    it("should toggle a custom reaction without retrying it", async () => {
+      const retrying = new DiscourseService(
+        "https://discuss.near.vote",
+        "test-api-key",
+        "system",
+        { maxRetries: 2, retryBaseDelayMs: 1 }
+      );
+      const fetchMock = vi
+        .fn()
+        .mockResolvedValueOnce(
+          Response.json({
+            ...likedPost,
+            reactions: [{ id: "+1", type: "emoji", count: 3 }],
+            current_user_reaction: { id: "+1", type: "emoji", can_undo: true },
+          })
+        )
+        .mockResolvedValueOnce(new Response("", { status: 502 }));
+      vi.stubGlobal("fetch", fetchMock);
+
+      const result = await Effect.runPromise(
+        retrying.togglePostReaction({
+          postId: 42,
+          reaction: "+1",
+          auth: userAuth,
+        })
+      );
+
+      expect(result.reactions).toEqual([{ id: "+1", count: 3 }]);
+      expect(result.currentUserReaction).toBe("+1");
+      expect(fetchMock.mock.calls[0][0]).toBe(
+        "https://discuss.near.vote/discourse-reactions/posts/42/custom-reactions/%2B1/toggle.json"
+      );
+      expect(fetchMock.mock.calls[0][1].method).toBe("PUT");
+
+      await Effect.runPromise(
+        Effect.flip(
+          retrying.togglePostReaction({
+            postId: 42,
+            reaction: "+1",
+            auth: userAuth,
+          })
+        )
+      );
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe("notifications", () => {
+    afterEach(() => {
+      vi.unstubAllGlobals();
+    });
+
+    it("should page through unread notifications as the user", async () => {
+      const fetchMock = vi.fn().mockResolvedValue(
+        Response.json({
+          notifications: [
+            {
+              id: 100,
+              notification_type: 2,
+              read: false,
+              high_priority: false,
+              created_at: "2024-01-01T00:00:00.000Z",
+              topic_id: 7,
+              post_number: 3,
+              slug: "proposal-thread",
+              fancy_title: "Proposal thread",
+              data: { display_username: "bob" },
+            },
+            {
+              id: 99,
+              notification_type: 999,
+              read: false,
+              created_at: "2024-01-01T00:00:00.000Z",
+              data: {},
+            },
+          ],
+          total_rows_notifications: 62,
+        })
+      );
+      vi.stubGlobal("fetch", fetchMock);
+
+      const result = await Effect.runPromise(
+        service.getNotifications({ unreadOnly: true, page: 1, auth: userAuth })
+      );
+
+      expect(fetchMock.mock.calls[0][0]).toBe(
+        "https://discuss.near.vote/notifications.json?limit=30&offset=30&filter=unread"
+      );
+      expect(fetchMock.mock.calls[0][1].headers["User-Api-Key"]).toBe(
+        "alice-user-key"
+      );
+      expect(result.notifications[0]).toEqual({
+        id: 100,
+        type: "replied",
+        notificationType: 2,
+        read: false,
+        highPriority: false,
+        createdAt: "2024-01-01T00:00:00.000Z",
+        topicId: 7,
+        postNumber: 3,
+        slug: "proposal-thread",
+        title: "Proposal thread",
+        username: "bob",
+      });
+      expect(result.notifications[1].type).toBe("unknown");
+      expect(result.totalRows).toBe(62);
+      expect(result.nextPage).toBe(2);
+    });
+
+    it("should mark a single notification or all as read", async () => {
+      const fetchMock = vi
+        .fn()
+        .mockImplementation(async () => Response.json({ success: "OK" }));
+      vi.stubGlobal("fetch", fetchMock);
+
+      await Effect.runPromise(
+        service.markNotificationsRead({ notificationId: 100, auth: userAuth })
+      );
+      await Effect.runPromise(
+        service.markNotificationsRead({ auth: userAuth })
+      );
+
+      const [url, init] = fetchMock.mock.calls[0];
+      expect(url).toBe(
+        "https://discuss.near.vote/notifications/mark-read.json"
+      );
+      expect(init.method).toBe("PUT");
+      expect(JSON.parse(init.body)).toEqual({ id: 100 });
+      expect(JSON.parse(fetchMock.mock.calls[1][1].body)).toEqual({});
+    });
+  });
+
+  describe("getLatestTopicPosts", () => {
+    const rawPost = (id: number) => ({
+      id,
+      topic_id: 7,
+      post_number: id,
+      username: "alice",
+      cooked: `<p>Post ${id}</p>`,
+      created_at: "2024-01-01T00:00:00.000Z",
+      updated_at: "2024-01-01T00:00:00.000Z",
+    });
+
+    afterEach(() => {
+      vi.unstubAllGlobals();
+    });
+
+    it("should fetch the last page of posts by id", async () => {
+      const stream = Array.from({ length: 25 }, (_, index) => index + 1);
+      const fetchMock = vi
+        .fn()
+        .mockResolvedValueOnce(
+          Response.json({
+            id: 7,
+            post_stream: {
+              posts: stream.slice(0, 20).map(rawPost),
+              stream,
+            },
+          })
+        )
+        .mockResolvedValueOnce(
+          Response.json({
+            post_stream: { posts: stream.slice(20).map(rawPost) },
+          })
+        );
+      vi.stubGlobal("fetch", fetchMock);
+
+      const posts = await Effect.runPromise(service.getLatestTopicPosts(7));
+
+      expect(posts.map((post) => post.id)).toEqual(stream.slice(5));
+      expect(fetchMock.mock.calls[1][0]).toBe(
+        "https://discuss.near.vote/t/7/posts.json?post_ids[]=21&post_ids[]=22&post_ids[]=23&post_ids[]=24&post_ids[]=25"
+      );
+    });
+
+    it("should not fetch again when every post is loaded", async () => {
+      const fetchMock = vi.fn().mockResolvedValue(
+        Response.json({
+          id: 7,
+          post_stream: { posts: [rawPost(1), rawPost(2)], stream: [1, 2] },
+        })
+      );
+      vi.stubGlobal("fetch", fetchMock);
+
+      const posts = await Effect.runPromise(service.getLatestTopicPosts(7));
+
+      expect(posts).toHaveLength(2);
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe("search", () => {
+    afterEach(() => {
+      vi.unstubAllGlobals();
+    });
+
+    it("should append filters in advanced search syntax", async () => {
+      const fetchMock = vi.fn().mockResolvedValue(
+        Response.json({
+          posts: [
+            {
+              id: 42,
+              topic_id: 7,
+              post_number: 1,
+              username: "alice",
+              blurb: "A proposal to fund",
+              like_count: 3,
+              created_at: "2024-01-01T00:00:00.000Z",
+            },
+          ],
+          topics: [
+            {
+              id: 7,
+              title: "Funding proposal",
+              slug: "funding-proposal",
+              category_id: 5,
+              posts_count: 4,
+              tags: ["treasury", { id: 2, name: "grants" }],
+              created_at: "2024-01-01T00:00:00.000Z",
+            },
+          ],
+          grouped_search_result: { more_full_page_results: true },
+        })
+      );
+      vi.stubGlobal("fetch", fetchMock);
+
+      const result = await Effect.runPromise(
+        service.search({
+          query: "funding",
+          category: "governance/proposals",
+          username: "alice",
+          tags: ["treasury", "grants"],
+          status: "open",
+          after: "2024-01-01",
+          before: "2024-02-01",
+          page: 0,
+        })
+      );
+
+      const url = new URL(fetchMock.mock.calls[0][0]);
+      expect(url.pathname).toBe("/search.json");
+      expect(url.searchParams.get("q")).toBe(
+        "funding #governance:proposals @alice tags:treasury,grants status:open after:2024-01-01 before:2024-02-01"
+      );
+      expect(url.searchParams.get("page")).toBe("1");
+      expect(fetchMock.mock.calls[0][1].headers).toEqual({});
+      expect(result.posts[0]).toEqual({
+        id: 42,
+        topicId: 7,
+        postNumber: 1,
+        username: "alice",
+        name: null,
+        avatarTemplate: null,
+        blurb: "A proposal to fund",
+        likeCount: 3,
+        createdAt: "2024-01-01T00:00:00.000Z",
+      });
+      expect(result.topics[0]).toMatchObject({
+        id: 7,
+        title: "Funding proposal",
+        tags: ["treasury", "grants"],
+      });
+      expect(result.nextPage).toBe(1);
+    });
+
+    it("should filter by category id", async () => {
+      const fetchMock = vi.fn().mockResolvedValue(Response.json({}));
+      vi.stubGlobal("fetch", fetchMock);
+
+      const result = await Effect.runPromise(
+        service.search({ query: "funding", category: 5, page: 2 })
+      );
+
+      const url = new URL(fetchMock.mock.calls[0][0]);
+      expect(url.searchParams.get("q")).toBe("funding category:5");
+      expect(url.searchParams.get("page")).toBe("3");
+      expect(result).toEqual({ posts: [], topics: [], nextPage: null });
+    });
+  });
+
+  describe("findSimilarTopics", () => {
+    afterEach(() => {
+      vi.unstubAllGlobals();
+    });
+
+    it("should join similar topic excerpts with their topics", async () => {
+      const fetchMock = vi.fn().mockResolvedValue(
+        Response.json({
+          similar_topics: [
+            { id: 1, topic_id: 7, blurb: "Earlier funding proposal" },
+            { id: 2, topic_id: 99, blurb: "Topic missing from the list" },
+          ],
+          topics: [
+            {
+              id: 7,
+              title: "Funding proposal",
+              slug: "funding-proposal",
+              posts_count: 4,
+              created_at: "2024-01-01T00:00:00.000Z",
+            },
+          ],
+        })
+      );
+      vi.stubGlobal("fetch", fetchMock);
+
+      const topics = await Effect.runPromise(
+        service.findSimilarTopics({
+          title: "Funding proposal",
+          raw: "x".repeat(5000),
+        })
+      );
+
+      expect(topics).toHaveLength(1);
+      expect(topics[0]).toMatchObject({
+        id: 7,
+        title: "Funding proposal",
+        blurb: "Earlier funding proposal",
+      });
+      const url = new URL(fetchMock.mock.calls[0][0]);
+      expect(url.pathname).toBe("/topics/similar_to.json");
+      expect(url.searchParams.get("title")).toBe("Funding proposal");
+      expect(url.searchParams.get("raw")).toHaveLength(1000);
+    });
+
+    it("should send an empty raw when only a title is given", async () => {
+      const fetchMock = vi.fn().mockResolvedValue(Response.json([]));
+      vi.stubGlobal("fetch", fetchMock);
+
+      await Effect.runPromise(
+        service.findSimilarTopics({ title: "Funding proposal" })
+      );
+
+      const url = new URL(fetchMock.mock.calls[0][0]);
+      expect(url.searchParams.get("raw")).toBe("");
+    });
+
+    it("should treat a bare empty list as no similar topics", async () => {
+      vi.stubGlobal("fetch", vi.fn().mockResolvedValue(Response.json([])));
+
+      const topics = await Effect.runPromise(
+        service.findSimilarTopics({ title: "Funding", raw: "Short forum" })
+      );
+
+      expect(topics).toEqual([]);
+    });
+  });
+
+  describe("retries", () => {
+    const retrying = new DiscourseService(
+      "https://discuss.near.vote",
+      "test-api-key",
+      "system",
+      { maxRetries: 2, retryBaseDelayMs: 1 }
+    );
+
+    const createPost = () =>
+      retrying.createPost({
+        title: "Test Post Title Here",
+        raw: "This is a test post content that is long enough.",
+        auth: userAuth,
+      });
+
+    afterEach(() => {
+      vi.unstubAllGlobals();
+    });
+
+    it("should retry reads on server and network errors", async () => {
+      const fetchMock = vi
+        .fn()
+        .mockResolvedValueOnce(new Response("", { status: 503 }))
+        .mockRejectedValueOnce(new TypeError("fetch failed"))
+        .mockResolvedValueOnce(
+          Response.json({
+            id: 42,
+            topic_id: 7,
+            post_number: 1,
+            username: "alice",
+            cooked: "<p>Hello</p>",
+            created_at: "2024-01-01T00:00:00.000Z",
+            updated_at: "2024-01-01T00:00:00.000Z",
+          })
+        );
+      vi.stubGlobal("fetch", fetchMock);
+
+      const post = await Effect.runPromise(retrying.getPost(42));
+
+      expect(post.id).toBe(42);
+      expect(fetchMock).toHaveBeenCalledTimes(3);
+    });
+
+    it("should give up after the configured retries", async () => {
+      const fetchMock = vi
+        .fn()
+        .mockImplementation(async () => new Response("", { status: 502 }));
+      vi.stubGlobal("fetch", fetchMock);
+
+      const error = await Effect.runPromise(
+        Effect.flip(retrying.listLatestTopics({ page: 0 }))
+      );
+
+      expect(error).toMatchObject({ _tag: "DiscourseApiError", status: 502 });
+      expect(fetchMock).toHaveBeenCalledTimes(3);
+    });
+
+    it("should never replay a post after a server error", async () => {
+      const fetchMock = vi
+        .fn()
+        .mockImplementation(async () => new Response("", { status: 502 }));
+      vi.stubGlobal("fetch", fetchMock);
+
+      await Effect.runPromise(Effect.flip(createPost()));
+
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+    });
+
+    it("should never replay a post after a network error", async () => {
+      const fetchMock = vi.fn().mockRejectedValue(new TypeError("reset"));
+      vi.stubGlobal("fetch", fetchMock);
+
+      const error = await Effect.runPromise(Effect.flip(createPost()));
+
+      expect(error._tag).toBe("DiscourseNetworkError");
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+    });
+
+    it("should replay a post that was rate limited", async () => {
+      const fetchMock = vi
+        .fn()
+        .mockResolvedValueOnce(
+          Response.json({ extras: { wait_seconds: 0 } }, { status: 429 })
+        )
+        .mockResolvedValueOnce(
+          Response.json({ id: 1, topic_id: 2, topic_slug: "test-post" })
+        );
+      vi.stubGlobal("fetch", fetchMock);
+
+      const result = await Effect.runPromise(createPost());
+
+      expect(result.id).toBe(1);
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+    });
+
+    it("should not wait longer than allowed for Retry-After", async () => {
+      const fetchMock = vi
+        .fn()
+        .mockImplementation(
+          async () =>
+            new Response("", { status: 429, headers: { "Retry-After": "60" } })
+        );
+      vi.stubGlobal("fetch", fetchMock);
+
+      const error = await Effect.runPromise(Effect.flip(retrying.getPost(42)));
+
+      expect(error).toMatchObject({ status: 429, retryAfter: 60 });
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+    });
+
+    it("should time out slow requests", async () => {
+      const slow = new DiscourseService(
+        "https://discuss.near.vote",
+        "test-api-key",
+        "system",
+        { timeoutMs: 20, maxRetries: 0 }
+      );
+      vi.stubGlobal(
+        "fetch",
+        vi
+          .fn()
+          .mockImplementation(
+            (_url: string, init: RequestInit) =>
+              new Promise((_resolve, reject) =>
+                init.signal?.addEventListener("abort", () =>
+                  reject(init.signal?.reason)
+                )
+              )
+          )
+      );
+
+      const error = await Effect.runPromise(Effect.flip(slow.getPost(42)));
+
+      expect(error._tag).toBe("DiscourseNetworkError");
+      expect(error.message).toContain("timed out after 20ms");
+    });
   });
 });
 
@@ -48,6 +1193,65 @@ describe("CryptoService", () => {
       expect(result.publicKey).not.toBe(result.privateKey);
     });
   });
+
+  describe("decryptPayload", () => {
+    const decryptError = (payload: string, privateKey = FIXTURE_PRIVATE_KEY) =>
+      Effect.runPromise(
+        Effect.flip(service.decryptPayload(payload, privateKey))
+      );
+
+    it("should decrypt a Discourse payload", async () => {
+      const key = await Effect.runPromise(
+        service.decryptPayload(FIXTURE_PAYLOAD, FIXTURE_PRIVATE_KEY)
+      );
+
+      expect(key).toBe("fixture-user-api-key");
+    });
+
+    it("should decrypt payloads for freshly generated key pairs", async () => {
+      const { publicKey, privateKey } = await Effect.runPromise(
+        service.generateKeyPair()
+      );
+      const payload = publicEncrypt(
+        { key: publicKey, padding: constants.RSA_PKCS1_PADDING },
+        Buffer.from(JSON.stringify({ key: "generated-key", nonce: "n" }))
+      ).toString("base64");
+
+      const key = await Effect.runPromise(
+        service.decryptPayload(payload, privateKey)
+      );
+
+      expect(key).toBe("generated-key");
+    });
+
+    it("should reject malformed base64", async () => {
+      const error = await decryptError("not base64!");
+
+      expect(error._tag).toBe("DecryptionError");
+      expect(error.reason).toBe("invalid_base64");
+    });
+
+    it("should reject payloads encrypted for another key", async () => {
+      const { privateKey } = await Effect.runPromise(service.generateKeyPair());
+      const error = await decryptError(FIXTURE_PAYLOAD, privateKey);
+
+      expect(error.reason).toBe("wrong_key");
+    });
+
+    it("should reject truncated ciphertext", async () => {
+      const error = await decryptError(
+        Buffer.from("too short").toString("base64")
+      );
+
+      expect(error.reason).toBe("wrong_key");
+    });
+
+    it("should reject plaintext that is not JSON", async () => {
+      const error = await decryptError(FIXTURE_NON_JSON_PAYLOAD);
+
+      expect(error.reason).toBe("invalid_json");
+    });
+  });
 });
 
 describe("NonceManager", () => {
@@ -88,6 +1292,12 @@ describe("NonceManager", () => {
       expect(data?.clientId).toBe(clientId);
       expect(data?.privateKey).toBe(privateKey);
       expect(data?.timestamp).toBeDefined();
+      expect(data?.scopes).toEqual(["read", "write"]);
+    });
+
+    it("should keep the requested scopes", () => {
+      const nonce = manager.create("test-client", "key", ["notifications"]);
+      expect(manager.get(nonce)?.scopes).toEqual(["notifications"]);
     });
 
     it("should return null for invalid nonce", () => {
@@ -111,6 +1321,16 @@ describe("NonceManager", () => {
     });
   });
 
+  describe("size", () => {
+    it("should count stored nonces", () => {
+      const sized = new NonceManager();
+      sized.create("test-client", "key-1");
+      sized.create("test-client", "key-2");
+
+      expect(sized.size()).toBe(2);
+    });
+  });
+
   describe("consume", () => {
     it("should remove nonce after consumption", () => {
       const nonce = manager.create("test-client", "test-key");
@@ -122,6 +1342,25 @@ describe("NonceManager", () => {
   });
 });
 
+describe("missingScopes", () => {
+  it("should return nothing when all scopes are granted", () => {
+    expect(missingScopes(["read", "push"], ["read", "push"])).toEqual([]);
+  });
+
+  it("should treat write as covering read and notifications", () => {
+    expect(missingScopes(["write"], ["read", "notifications"])).toEqual([]);
+  });
+
+  it("should report scopes that are not granted", () => {
+    expect(missingScopes(["read"], ["write", "session_info"])).toEqual([
+      "write",
+    ]);
+    expect(missingScopes(["notifications"], ["message_bus"])).toEqual([
+      "message_bus",
+    ]);
+  });
+});
+
 describe("LinkageStore", () => {
   const store = new LinkageStore();
 
@@ -171,6 +1410,25 @@ describe("LinkageStore", () => {
     });
   });
 
+  describe("delete", () => {
+    it("should remove an existing linkage", () => {
+      store.set("delete.near", {
+        nearAccount: "delete.near",
+        discourseUsername: "deleteuser",
+        discourseUserId: 7,
+        userApiKey: "key",
+        verifiedAt: new Date().toISOString(),
+      });
+
+      expect(store.delete("delete.near")).toBe(true);
+      expect(store.get("delete.near")).toBeNull();
+    });
+
+    it("should return false for non-existent account", () => {
+      expect(store.delete("nonexistent.near")).toBe(false);
+    });
+  });
+
   describe("getAll", () => {
     it("should return all linkages", () => {
       const store2 = new LinkageStore();
@@ -200,4 +1458,57 @@ describe("LinkageStore", () => {
       expect(all).toContainEqual(linkage2);
     });
   });
+
+  describe("findByDiscourseUser", () => {
+    const alice = (nearAccount: string) => ({
+      nearAccount,
+      discourseUsername: "Alice",
+      discourseUserId: 7,
+      userApiKey: `key-${nearAccount}`,
+      verifiedAt: "2024-01-01T00:00:00.000Z",
+    });
+
+    it("should find linkages by user id or case-insensitive username", () => {
+      const indexed = new LinkageStore();
+      indexed.set("alice.near", alice("alice.near"));
+      indexed.set("alice2.near", alice("alice2.near"));
+
+      expect(
+        indexed.findByDiscourseUser({ userId: 7 }).map((l) => l.nearAccount)
+      ).toEqual(["alice.near", "alice2.near"]);
+      expect(
+        indexed
+          .findByDiscourseUser({ username: "alice" })
+          .map((l) => l.nearAccount)
+      ).toEqual(["alice.near", "alice2.near"]);
+    });
+
+    it("should follow relinks and deletions", () => {
+      const indexed = new LinkageStore();
+      indexed.set("alice.near", alice("alice.near"));
+      indexed.set("alice.near", {
+        ...alice("alice.near"),
+        discourseUsername: "bob",
+        discourseUserId: 8,
+      });
+
+      expect(indexed.findByDiscourseUser({ userId: 7 })).toEqual([]);
+      expect(indexed.findByDiscourseUser({ username: "bob" })).toHaveLength(1);
+
+      indexed.delete("alice.near");
+
+      expect(indexed.findByDiscourseUser({ userId: 8 })).toEqual([]);
+    });
+
+    it("should rebuild a missing index from stored linkages", () => {
+      const storage = new MemoryStorage<any>();
+      new LinkageStore(storage).set("alice.near", alice("alice.near"));
+
+      const reopened = new LinkageStore(storage);
+
+      expect(reopened.findByDiscourseUser({ userId: 7 })).toEqual([
+        alice("alice.near"),
+      ]);
+    });
+  });
 });
@@ -0,0 +1,172 @@
+import {
+  mkdtempSync,
+  readdirSync,
+  readFileSync,
+  rmSync,
+  utimesSync,
+  writeFileSync,
+} from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { EnvelopeCipher } from "../../encryption";
+import { LinkageStore, NonceManager } from "../../service";
+import {
+  createStorage,
+  FileStorage,
+  MemoryStorage,
+  type StorageBackend,
+} from "../../storage";
+
+const backends: Array<
+  [string, (dir: string) => StorageBackend<{ value: number }>]
+> = [
+  ["MemoryStorage", () => new MemoryStorage()],
+  ["FileStorage", (dir) => new FileStorage(join(dir, "items.json"))],
+];
+
+describe.each(backends)("%s", (_name, makeStorage) => {
+  let dir: string;
+  let storage: StorageBackend<{ value: number }>;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "discourse-plugin-"));
+    storage = makeStorage(dir);
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("should store and retrieve values", () => {
+    storage.set("a", { value: 1 });
+    expect(storage.get("a")).toEqual({ value: 1 });
+  });
+
+  it("should return null for missing keys", () => {
+    expect(storage.get("missing")).toBeNull();
+  });
+
+  it("should delete values", () => {
+    storage.set("a", { value: 1 });
+
+    expect(storage.delete("a")).toBe(true);
+    expect(storage.delete("a")).toBe(false);
+    expect(storage.get("a")).toBeNull();
+  });
+
+  it("should list entries", () => {
+    storage.set("a", { value: 1 });
+    storage.set("b", { value: 2 });
+
+    expect(storage.entries()).toEqual([
+      ["a", { value: 1 }],
+      ["b", { value: 2 }],
+    ]);
+  });
+
+  it("should update values from their current state", () => {
+    storage.set("a", { value: 1 });
+
+    expect(
+      storage.update("a", (current) => ({ value: (current?.value ?? 0) + 1 }))
+    ).toEqual({ value: 2 });
+    expect(
+      storage.update("b", (current) => ({ value: (current?.value ?? 0) + 1 }))
+    ).toEqual({ value: 1 });
+    expect(storage.get("a")).toEqual({ value: 2 });
+  });
+});
+
+describe("FileStorage persistence", () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "discourse-plugin-"));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("should share data between instances using the same file", () => {
+    const first = createStorage<{ value: number }>("file", "items", dir);
+    const second = createStorage<{ value: number }>("file", "items", dir);
+
+    first.set("a", { value: 1 });
+
+    expect(second.get("a")).toEqual({ value: 1 });
+    expect(JSON.parse(readFileSync(join(dir, "items.json"), "utf8"))).toEqual({
+      a: { value: 1 },
+    });
+  });
+
+  it("should keep linkages across LinkageStore restarts", () => {
+    const linkage = {
+      nearAccount: "test.near",
+      discourseUsername: "testuser",
+      discourseUserId: 123,
+      userApiKey: "test-api-key",
+      verifiedAt: new Date().toISOString(),
+    };
+
+    new LinkageStore(createStorage("file", "linkages", dir)).set(
+      "test.near",
+      linkage
+    );
+
+    const restarted = new LinkageStore(createStorage("file", "linkages", dir));
+    expect(restarted.get("test.near")).toEqual(linkage);
+  });
+
+  it("should keep nonces across NonceManager restarts", () => {
+    const nonce = new NonceManager(createStorage("file", "nonces", dir)).create(
+      "test-client",
+      "test-private-key"
+    );
+
+    const restarted = new NonceManager(createStorage("file", "nonces", dir));
+    expect(restarted.verify(nonce, "test-client")).toBe(true);
+    expect(restarted.getPrivateKey(nonce)).toBe("test-private-key");
+  });
+
+  it("should encrypt nonce private keys when a cipher is given", () => {
+    const cipher = new EnvelopeCipher("test-encryption-secret-0123456789");
+    const nonce = new NonceManager(
+      createStorage("file", "nonces", dir),
+      cipher
+    ).create("test-client", "test-private-key");
+
+    expect(readFileSync(join(dir, "nonces.json"), "utf8")).not.toContain(
+      "test-private-key"
+    );
+    expect(
+      new NonceManager(
+        createStorage("file", "nonces", dir),
+        cipher
+      ).getPrivateKey(nonce)
+    ).toBe("test-private-key");
+  });
+
+  it("should leave no lock or temp files behind", () => {
+    const storage = createStorage<{ value: number }>("file", "items", dir);
+
+    storage.set("a", { value: 1 });
+    storage.delete("a");
+
+    expect(readdirSync(dir)).toEqual(["items.json"]);
+  });
+
+  it("should break a lock left behind by a crashed writer", () => {
+    const lockPath = join(dir, "items.json.lock");
+    writeFileSync(lockPath, "");
+    const stale = new Date(Date.now() - 60_000);
+    utimesSync(lockPath, stale, stale);
+
+    createStorage<{ value: number }>("file", "items", dir).set("a", {
+      value: 1,
+    });
+
+    expect(readdirSync(dir)).toEqual(["items.json"]);
+  });
+});
@@ -0,0 +1,261 @@
+import { describe, expect, it, vi } from "vitest";
+import { PostChangeTracker, topicActivityPoller, WatchHub } from "../../watch";
+
+const post = (id: number, createdAt: string, updatedAt = createdAt) => ({
+  id,
+  topicId: 7,
+  postNumber: id,
+  username: "alice",
+  name: null,
+  avatarTemplate: null,
+  cooked: `<p>Post ${id}</p>`,
+  replyToPostNumber: null,
+  replyCount: 0,
+  createdAt,
+  updatedAt,
+});
+
+const topic = (id: number, lastPostedAt: string) => ({
+  id,
+  title: `Topic ${id}`,
+  slug: `topic-${id}`,
+  categoryId: 5,
+  postsCount: 1,
+  views: 0,
+  likeCount: 0,
+  pinned: false,
+  closed: false,
+  archived: false,
+  createdAt: "2024-01-01T00:00:00.000Z",
+  lastPostedAt,
+});
+
+const since = Date.parse("2024-01-02T00:00:00.000Z");
+
+describe("PostChangeTracker", () => {
+  it("should report posts created or edited after since", () => {
+    const tracker = new PostChangeTracker(since);
+
+    const changes = tracker.diff([
+      post(1, "2024-01-01T00:00:00.000Z"),
+      post(2, "2024-01-01T00:00:00.000Z", "2024-01-03T00:00:00.000Z"),
+      post(3, "2024-01-02T12:00:00.000Z"),
+    ]);
+
+    expect(changes.map((change) => [change.type, change.post.id])).toEqual([
+      ["created", 3],
+      ["edited", 2],
+    ]);
+    expect(changes[1].cursor).toBe("2024-01-03T00:00:00.000Z");
+  });
+
+  it("should report later edits once and ignore unchanged posts", () => {
+    const tracker = new PostChangeTracker(since);
+    tracker.diff([post(1, "2024-01-01T00:00:00.000Z")]);
+
+    const edited = post(
+      1,
+      "2024-01-01T00:00:00.000Z",
+      "2024-01-04T00:00:00.000Z"
+    );
+
+    expect(tracker.diff([edited])).toEqual([
+      { type: "edited", post: edited, cursor: edited.updatedAt },
+    ]);
+    expect(tracker.diff([edited])).toEqual([]);
+  });
+});
+
+describe("topicActivityPoller", () => {
+  it("should only fetch posts of topics with new activity", async () => {
+    const listTopics = vi
+      .fn()
+      .mockResolvedValueOnce([
+        topic(1, "2024-01-01T00:00:00.000Z"),
+        topic(2, "2024-01-03T00:00:00.000Z"),
+      ])
+      .mockResolvedValueOnce([
+        topic(1, "2024-01-05T00:00:00.000Z"),
+        topic(2, "2024-01-03T00:00:00.000Z"),
+      ]);
+    const latestPosts = vi.fn().mockResolvedValue([]);
+    const poll = topicActivityPoller(listTopics, latestPosts, since, 0);
+
+    await poll();
+    await poll();
+
+    expect(latestPosts.mock.calls).toEqual([[2], [1]]);
+  });
+
+  it("should pick up edits in topics without new posts", async () => {
+    const listTopics = vi
+      .fn()
+      .mockResolvedValue([
+        topic(1, "2024-01-01T00:00:00.000Z"),
+        topic(2, "2024-01-01T00:00:00.000Z"),
+      ]);
+    const original = post(1, "2024-01-01T00:00:00.000Z");
+    const edited = post(
+      1,
+      "2024-01-01T00:00:00.000Z",
+      "2024-01-03T00:00:00.000Z"
+    );
+    const latestPosts = vi
+      .fn()
+      .mockImplementation(async (topicId: number) =>
+        topicId === 1
+          ? [latestPosts.mock.calls.length > 2 ? edited : original]
+          : []
+      );
+    const poll = topicActivityPoller(listTopics, latestPosts, since, 1);
+    const tracker = new PostChangeTracker(since);
+
+    expect(tracker.diff(await poll())).toEqual([]);
+    expect(tracker.diff(await poll())).toEqual([]);
+    expect(tracker.diff(await poll())).toEqual([
+      { type: "edited", post: edited, cursor: edited.updatedAt },
+    ]);
+    expect(latestPosts.mock.calls).toEqual([[1], [2], [1]]);
+  });
+});
+
+describe("WatchHub", () => {
+  const hub = (maxStreams = 10, intervalMs = 60_000) => {
+    const controller = new AbortController();
+    return {
+      controller,
+      hub: new WatchHub({
+        intervalMs,
+        maxStreams,
+        signal: controller.signal,
+        isTransient: (error) => error instanceof TransientError,
+      }),
+    };
+  };
+
+  class TransientError extends Error {}
+
+  it("should share one poller between streams on the same key", async () => {
+    const { controller, hub: watches } = hub();
+    const poll = vi
+      .fn()
+      .mockResolvedValue([post(1, "2024-01-03T00:00:00.000Z")]);
+    const catchUp = vi
+      .fn()
+      .mockResolvedValue([post(1, "2024-01-03T00:00:00.000Z")]);
+
+    const first = watches.open("topic:7", { poll, catchUp, since })!;
+    const second = watches.open("topic:7", {
+      poll: vi.fn(),
+      catchUp,
+      since,
+    })!;
+
+    expect((await first.next()).value?.post.id).toBe(1);
+    expect((await second.next()).value?.post.id).toBe(1);
+    expect(poll).toHaveBeenCalledTimes(1);
+    expect(catchUp).toHaveBeenCalledTimes(1);
+
+    controller.abort();
+    expect(await first.next()).toEqual({ done: true, value: undefined });
+    expect(await second.next()).toEqual({ done: true, value: undefined });
+    expect(watches.size).toBe(0);
+  });
+
+  it("should refuse streams over the cap until one closes", async () => {
+    const { controller, hub: watches } = hub(1);
+    const feed = { poll: vi.fn().mockResolvedValue([]), catchUp: vi.fn() };
+    const stream = new AbortController();
+
+    const first = watches.open("topic:7", {
+      ...feed,
+      since,
+      signal: stream.signal,
+    })!;
+    expect(watches.open("topic:8", { ...feed, since })).toBeNull();
+
+    const pending = first.next();
+    stream.abort();
+    await pending;
+
+    expect(watches.size).toBe(0);
+    expect(watches.open("topic:8", { ...feed, since })).not.toBeNull();
+    controller.abort();
+  });
+
+  it("should end every stream on the key when a poll fails", async () => {
+    const { controller, hub: watches } = hub();
+    const failure = new Error("Topic not found");
+
+    const changes = watches.open("topic:7", {
+      poll: vi.fn().mockRejectedValue(failure),
+      catchUp: vi.fn(),
+      since,
+    })!;
+
+    await expect(changes.next()).rejects.toBe(failure);
+    expect(watches.size).toBe(0);
+    controller.abort();
+  });
+
+  it("should keep polling through transient failures", async () => {
+    const { controller, hub: watches } = hub(10, 1);
+    const poll = vi
+      .fn()
+      .mockRejectedValueOnce(new TransientError("Discourse is down"))
+      .mockResolvedValue([post(1, "2024-01-03T00:00:00.000Z")]);
+
+    const changes = watches.open("topic:7", { poll, catchUp: vi.fn(), since })!;
+
+    expect((await changes.next()).value?.post.id).toBe(1);
+    expect(poll).toHaveBeenCalledTimes(2);
+    controller.abort();
+  });
+
+  it("should merge queued changes to the same post", async () => {
+    const { controller, hub: watches } = hub(10, 1);
+    const created = post(1, "2024-01-03T00:00:00.000Z");
+    const edited = post(
+      1,
+      "2024-01-03T00:00:00.000Z",
+      "2024-01-04T00:00:00.000Z"
+    );
+    const poll = vi
+      .fn()
+      .mockResolvedValueOnce([created])
+      .mockResolvedValue([edited]);
+
+    const changes = watches.open("topic:7", { poll, catchUp: vi.fn(), since })!;
+    await vi.waitFor(() => expect(poll.mock.calls.length).toBeGreaterThan(1));
+
+    expect((await changes.next()).value).toEqual({
+      type: "created",
+      post: edited,
+      cursor: edited.updatedAt,
+    });
+    controller.abort();
+    expect(await changes.next()).toEqual({ done: true, value: undefined });
+  });
+
+  it("should pause a stream that falls behind and catch it up", async () => {
+    const { controller, hub: watches } = hub(10, 1);
+    let next = 0;
+    const poll = vi.fn().mockImplementation(async () => {
+      next++;
+      return [post(next, "2024-01-03T00:00:00.000Z")];
+    });
+    const catchUp = vi.fn().mockResolvedValue([]);
+
+    const changes = watches.open("topic:7", { poll, catchUp, since })!;
+    await vi.waitFor(() => expect(next).toBeGreaterThan(110));
+
+    const ids: number[] = [];
+    for (let i = 0; i < 100; i++) {
+      ids.push((await changes.next()).value!.post.id);
+    }
+
+    expect(ids).toEqual(Array.from({ length: 100 }, (_, i) => i + 1));
+    expect(catchUp).toHaveBeenCalledTimes(1);
+    controller.abort();
+  });
+});
@@ -0,0 +1,114 @@
+import { createHmac } from "crypto";
+import { describe, expect, it } from "vitest";
+import { parseWebhookEvent, verifyWebhookSignature } from "../../webhooks";
+
+const secret = "test-webhook-secret";
+const sign = (body: string) =>
+  `sha256=${createHmac("sha256", secret).update(body).digest("hex")}`;
+
+describe("verifyWebhookSignature", () => {
+  const body = JSON.stringify({ ping: "OK" });
+
+  it("should accept the HMAC of the exact body", () => {
+    expect(verifyWebhookSignature(body, sign(body), secret)).toBe(true);
+  });
+
+  it("should reject a modified body, wrong secret or malformed header", () => {
+    expect(verifyWebhookSignature(`${body} `, sign(body), secret)).toBe(false);
+    expect(verifyWebhookSignature(body, sign(body), "other-secret")).toBe(
+      false
+    );
+    expect(verifyWebhookSignature(body, "sha256=abc", secret)).toBe(false);
+    expect(verifyWebhookSignature(body, "", secret)).toBe(false);
+  });
+});
+
+describe("parseWebhookEvent", () => {
+  it("should parse topic events", () => {
+    const event = parseWebhookEvent(
+      "topic_created",
+      "1",
+      JSON.stringify({
+        topic: {
+          id: 7,
+          title: "Governance proposal",
+          slug: "governance-proposal",
+          category_id: 5,
+          posts_count: 1,
+          created_at: "2024-01-01T00:00:00.000Z",
+        },
+      })
+    );
+
+    expect(event).toMatchObject({
+      id: "1",
+      event: "topic_created",
+      type: "topic",
+      topic: {
+        id: 7,
+        title: "Governance proposal",
+        categoryId: 5,
+        postsCount: 1,
+        closed: false,
+      },
+    });
+    expect(Date.parse(event!.receivedAt)).not.toBeNaN();
+  });
+
+  it("should parse post events", () => {
+    const event = parseWebhookEvent(
+      "post_edited",
+      undefined,
+      JSON.stringify({
+        post: {
+          id: 42,
+          topic_id: 7,
+          post_number: 2,
+          username: "alice",
+          raw: "Updated body",
+          cooked: "<p>Updated body</p>",
+          created_at: "2024-01-01T00:00:00.000Z",
+          updated_at: "2024-01-02T00:00:00.000Z",
+        },
+      })
+    );
+
+    expect(event).toMatchObject({
+      id: null,
+      type: "post",
+      post: { id: 42, topicId: 7, username: "alice", raw: "Updated body" },
+    });
+  });
+
+  it("should parse user events", () => {
+    const event = parseWebhookEvent(
+      "user_created",
+      "3",
+      JSON.stringify({
+        user: { id: 9, username: "bob", created_at: "2024-01-01T00:00:00Z" },
+      })
+    );
+
+    expect(event).toMatchObject({
+      type: "user",
+      user: {
+        id: 9,
+        username: "bob",
+        name: null,
+        createdAt: "2024-01-01T00:00:00Z",
+      },
+    });
+  });
+
+  it("should pass other payloads through untyped", () => {
+    expect(
+      parseWebhookEvent("ping", "4", JSON.stringify({ ping: "OK" }))
+    ).toMatchObject({ type: "other", payload: { ping: "OK" } });
+  });
+
+  it("should return null for bodies that are not JSON objects", () => {
+    expect(parseWebhookEvent("ping", "5", "not json")).toBeNull();
+    expect(parseWebhookEvent("ping", "5", "[1, 2]")).toBeNull();
+    expect(parseWebhookEvent("ping", "5", "null")).toBeNull();
+  });
+});
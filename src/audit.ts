@@ -0,0 +1,115 @@
+import { randomUUID } from "crypto";
+import { appendFileSync, existsSync, mkdirSync, readFileSync } from "fs";
+import { dirname, join } from "path";
+import type { z } from "every-plugin/zod";
+import type { AuditEntrySchema } from "./contract";
+import type { StorageKind } from "./storage";
+
+export type AuditEntry = z.infer<typeof AuditEntrySchema>;
+export type AuditEvent = Omit<AuditEntry, "id" | "timestamp">;
+
+/**
+ * AuditSink - Append-only persistence for audit entries
+ */
+export interface AuditSink {
+  append(entry: AuditEntry): void;
+  readAll(): AuditEntry[];
+}
+
+/**
+ * MemoryAuditSink - Keeps the most recent entries in process memory
+ */
+export class MemoryAuditSink implements AuditSink {
+  private entries: AuditEntry[] = [];
+
+  constructor(private readonly maxEntries = 10000) {}
+
+  append(entry: AuditEntry): void {
+    this.entries.push(entry);
+    if (this.entries.length > this.maxEntries) {
+      this.entries.splice(0, this.entries.length - this.maxEntries);
+    }
+  }
+
+  readAll(): AuditEntry[] {
+    return [...this.entries];
+  }
+}
+
+/**
+ * FileAuditSink - JSONL file, one entry per line, only ever appended to
+ */
+export class FileAuditSink implements AuditSink {
+  constructor(private readonly filePath: string) {}
+
+  append(entry: AuditEntry): void {
+    mkdirSync(dirname(this.filePath), { recursive: true });
+    appendFileSync(this.filePath, `${JSON.stringify(entry)}\n`, {
+      mode: 0o600,
+    });
+  }
+
+  readAll(): AuditEntry[] {
+    if (!existsSync(this.filePath)) return [];
+
+    return readFileSync(this.filePath, "utf8")
+      .split("\n")
+      .filter((line) => line.trim().length > 0)
+      .map((line) => JSON.parse(line));
+  }
+}
+
+/**
+ * AuditLog - Records linkage and posting actions and answers queries on them
+ */
+export class AuditLog {
+  constructor(private readonly sink: AuditSink = new MemoryAuditSink()) {}
+
+  record(event: AuditEvent): AuditEntry {
+    const entry = {
+      id: randomUUID(),
+      timestamp: new Date().toISOString(),
+      ...event,
+    };
+    this.sink.append(entry);
+    return entry;
+  }
+
+  /**
+   * Matching entries, newest first. `from` is inclusive, `to` exclusive.
+   */
+  query(filter: {
+    nearAccount?: string;
+    action?: AuditEntry["action"];
+    from?: string;
+    to?: string;
+  }): AuditEntry[] {
+    const from = filter.from ? Date.parse(filter.from) : -Infinity;
+    const to = filter.to ? Date.parse(filter.to) : Infinity;
+
+    return this.sink
+      .readAll()
+      .filter((entry) => {
+        const timestamp = Date.parse(entry.timestamp);
+        return (
+          (!filter.nearAccount || entry.nearAccount === filter.nearAccount) &&
+          (!filter.action || entry.action === filter.action) &&
+          timestamp >= from &&
+          timestamp < to
+        );
+      })
+      .reverse();
+  }
+}
+
+/**
+ * Create the audit log for the configured storage backend
+ */
+export function createAuditLog(kind: StorageKind, directory: string): AuditLog {
+  switch (kind) {
+    case "memory":
+      return new AuditLog(new MemoryAuditSink());
+    case "file":
+      return new AuditLog(new FileAuditSink(join(directory, "audit.jsonl")));
+  }
+}
@@ -1,5 +1,5 @@
 import { CommonPluginErrors } from "every-plugin";
-import { oc } from "every-plugin/orpc";
+import { eventIterator, oc } from "every-plugin/orpc";
 import { z } from "every-plugin/zod";
 
 /**
@@ -8,11 +8,65 @@ import { z } from "every-plugin/zod";
  * Enables NEAR account holders to connect and interact with forums
  */
 
+// Discourse's own errors[] messages, kept on every error mapped from a response
+const ValidationErrorsSchema = z
+  .array(
+    z.object({
+      field: z.string(),
+      message: z.string(),
+      code: z.string().optional(),
+    })
+  )
+  .optional();
+
+// CommonPluginErrors, with RATE_LIMITED sent as HTTP 429 instead of oRPC's
+// fallback 500 for codes it does not know
+export const ContractErrors = {
+  ...CommonPluginErrors,
+  UNAUTHORIZED: {
+    data: CommonPluginErrors.UNAUTHORIZED.data.extend({
+      validationErrors: ValidationErrorsSchema,
+    }),
+  },
+  RATE_LIMITED: {
+    status: 429,
+    data: CommonPluginErrors.RATE_LIMITED.data.extend({
+      validationErrors: ValidationErrorsSchema,
+    }),
+  },
+  SERVICE_UNAVAILABLE: {
+    data: CommonPluginErrors.SERVICE_UNAVAILABLE.data.extend({
+      validationErrors: ValidationErrorsSchema,
+    }),
+  },
+  NOT_FOUND: {
+    data: CommonPluginErrors.NOT_FOUND.data.extend({
+      validationErrors: ValidationErrorsSchema,
+    }),
+  },
+  FORBIDDEN: {
+    data: CommonPluginErrors.FORBIDDEN.data.extend({
+      validationErrors: ValidationErrorsSchema,
+    }),
+  },
+};
+
+// Discourse User API scopes a linkage can be granted
+export const UserApiScopeSchema = z.enum([
+  "read",
+  "write",
+  "message_bus",
+  "push",
+  "notifications",
+  "session_info",
+]);
+
 // Schema for linkage information
 export const LinkageSchema = z.object({
   nearAccount: z.string(),
   discourseUsername: z.string(),
   verifiedAt: z.string().datetime(),
+  scopes: z.array(UserApiScopeSchema).optional(), // Absent on linkages created before scopes were tracked
 });
 
 // Schema for auth URL response
@@ -29,6 +83,15 @@ export const LinkResultSchema = z.object({
   message: z.string(),
 });
 
+// Schema for unlink response
+export const UnlinkResultSchema = z.object({
+  success: z.boolean(),
+  nearAccount: z.string(),
+  discourseUsername: z.string(),
+  revoked: z.boolean(), // Whether Discourse confirmed the User API key revocation
+  message: z.string(),
+});
+
 // Schema for post creation result
 export const PostResultSchema = z.object({
   success: z.boolean(),
@@ -37,6 +100,270 @@ export const PostResultSchema = z.object({
   topicId: z.number().optional(),
 });
 
+// Schema for post deletion result
+export const DeleteResultSchema = z.object({
+  success: z.boolean(),
+  postId: z.number(),
+});
+
+// Schema for a post's signed content provenance
+export const ProvenanceSchema = z.object({
+  postId: z.number(),
+  nearAccount: z.string(),
+  action: z.enum(["create-post", "create-reply", "edit-post"]),
+  message: z.string(), // The NEP-413 message, committing to the content
+  publicKey: z.string(),
+  signature: z.string(),
+  nonce: z.string(), // Base64; with message and recipient, the signed NEP-413 payload
+  recipient: z.string(),
+  callbackUrl: z.string().nullable(),
+  signedAt: z.string().datetime(),
+  contentMatches: z.boolean(), // Whether the current post body is the signed one
+});
+
+// Actions recorded in the audit log
+export const AuditActionSchema = z.enum([
+  "complete-link",
+  "unlink",
+  "create-post",
+  "create-reply",
+  "edit-post",
+  "delete-post",
+  "send-private-message",
+  "like-post",
+  "unlike-post",
+  "toggle-reaction",
+  "admin-unlink",
+  "admin-export-linkages",
+  "admin-import-linkages",
+]);
+
+// Schema for an audit log entry
+export const AuditEntrySchema = z.object({
+  id: z.string(),
+  timestamp: z.string().datetime(),
+  action: AuditActionSchema,
+  actor: z.string().nullable(), // Authenticated caller: NEAR account or "admin-secret"
+  nearAccount: z.string().nullable(), // Linkage the action applied to
+  discourseUsername: z.string().nullable(),
+  authType: z.enum(["user-api-key", "impersonate"]).nullable(), // Credentials used on Discourse
+  postId: z.number().nullable(),
+  topicId: z.number().nullable(),
+  outcome: z.enum(["success", "failure"]),
+  error: z.string().nullable(),
+});
+
+// Schema for a Discourse post
+export const PostSchema = z.object({
+  id: z.number(),
+  topicId: z.number(),
+  postNumber: z.number(),
+  username: z.string(),
+  name: z.string().nullable(),
+  avatarTemplate: z.string().nullable(),
+  raw: z.string().optional(), // Only returned when fetching a single post
+  cooked: z.string(),
+  replyToPostNumber: z.number().nullable(),
+  replyCount: z.number(),
+  createdAt: z.string(),
+  updatedAt: z.string(),
+});
+
+// Schema for a Discourse topic summary
+export const TopicSchema = z.object({
+  id: z.number(),
+  title: z.string(),
+  slug: z.string(),
+  categoryId: z.number().nullable(),
+  postsCount: z.number(),
+  views: z.number(),
+  likeCount: z.number(),
+  pinned: z.boolean(),
+  closed: z.boolean(),
+  archived: z.boolean(),
+  createdAt: z.string(),
+  lastPostedAt: z.string().nullable(),
+});
+
+// Schema for a topic with one page of its posts
+export const TopicDetailSchema = TopicSchema.extend({
+  posts: z.array(PostSchema),
+  nextPage: z.number().nullable(),
+});
+
+// Schema for a page of topics
+export const TopicListSchema = z.object({
+  topics: z.array(TopicSchema),
+  nextPage: z.number().nullable(),
+});
+
+// Schema for a topic found by search
+export const SearchTopicSchema = TopicSchema.extend({
+  tags: z.array(z.string()),
+});
+
+// Schema for a post found by search
+export const SearchPostSchema = z.object({
+  id: z.number(),
+  topicId: z.number(),
+  postNumber: z.number(),
+  username: z.string(),
+  name: z.string().nullable(),
+  avatarTemplate: z.string().nullable(),
+  blurb: z.string(), // Excerpt around the matched terms
+  likeCount: z.number(),
+  createdAt: z.string(),
+});
+
+// Schema for a page of search results
+export const SearchResultSchema = z.object({
+  posts: z.array(SearchPostSchema),
+  topics: z.array(SearchTopicSchema), // Topics of the matched posts
+  nextPage: z.number().nullable(),
+});
+
+// Schema for a topic similar to a draft
+export const SimilarTopicSchema = TopicSchema.extend({
+  blurb: z.string(),
+});
+
+// Schema for a post's likes and discourse-reactions state after an action
+export const PostReactionsSchema = z.object({
+  postId: z.number(),
+  likeCount: z.number(),
+  liked: z.boolean(), // Whether the linked user now likes the post
+  reactions: z.array(z.object({ id: z.string(), count: z.number() })), // Empty without the discourse-reactions plugin
+  currentUserReaction: z.string().nullable(),
+});
+
+// Schema for a Discourse notification
+export const NotificationSchema = z.object({
+  id: z.number(),
+  type: z.string(), // e.g. "replied", "mentioned", "liked"; "unknown" for unmapped types
+  notificationType: z.number(), // Discourse's numeric type
+  read: z.boolean(),
+  highPriority: z.boolean(),
+  createdAt: z.string(),
+  topicId: z.number().nullable(),
+  postNumber: z.number().nullable(),
+  slug: z.string().nullable(),
+  title: z.string().nullable(), // Topic title the notification refers to
+  username: z.string().nullable(), // User who triggered it
+});
+
+// Schema for a page of notifications
+export const NotificationListSchema = z.object({
+  notifications: z.array(NotificationSchema),
+  totalRows: z.number(),
+  nextPage: z.number().nullable(),
+});
+
+// Schema for a post change emitted by watch procedures
+export const PostChangeSchema = z.object({
+  type: z.enum(["created", "edited"]),
+  post: PostSchema,
+  cursor: z.string(), // Pass as `since` to resume after this change
+});
+
+// Schema for the user carried by Discourse user webhooks
+export const WebhookUserSchema = z.object({
+  id: z.number(),
+  username: z.string(),
+  name: z.string().nullable(),
+  createdAt: z.string().nullable(),
+});
+
+const WebhookEventBaseSchema = z.object({
+  id: z.string().nullable(), // X-Discourse-Event-Id
+  event: z.string(), // X-Discourse-Event, e.g. "topic_created" or "post_edited"
+  receivedAt: z.string().datetime(),
+});
+
+// Schema for a verified webhook event, keyed by its payload type
+export const WebhookEventSchema = z.discriminatedUnion("type", [
+  WebhookEventBaseSchema.extend({
+    type: z.literal("topic"),
+    topic: TopicSchema,
+  }),
+  WebhookEventBaseSchema.extend({
+    type: z.literal("post"),
+    post: PostSchema,
+  }),
+  WebhookEventBaseSchema.extend({
+    type: z.literal("user"),
+    user: WebhookUserSchema,
+  }),
+  WebhookEventBaseSchema.extend({
+    type: z.literal("other"), // Ping and event types without a typed schema
+    payload: z.record(z.string(), z.unknown()),
+  }),
+]);
+
+export const WebhookEventTypeSchema = z.enum([
+  "topic",
+  "post",
+  "user",
+  "other",
+]);
+
+const CategoryBaseSchema = z.object({
+  id: z.number(),
+  name: z.string(),
+  slug: z.string(),
+  description: z.string().nullable(),
+  color: z.string(),
+  parentCategoryId: z.number().nullable(),
+  topicCount: z.number(),
+  readRestricted: z.boolean(),
+  // Access level of the user the list was fetched as, null when anonymous;
+  // "readonly" categories reject new topics
+  permission: z.enum(["full", "create_post", "readonly"]).nullable(),
+});
+
+// Schema for a Discourse category and its subcategories
+export const CategorySchema = CategoryBaseSchema.extend({
+  subcategories: z.array(CategoryBaseSchema),
+});
+
+// Schema for the detailed health report
+export const HealthSchema = z.object({
+  status: z.enum(["ok", "degraded", "down"]),
+  timestamp: z.string().datetime(),
+  discourse: z.object({
+    connected: z.boolean(),
+    latencyMs: z.number().nullable(),
+    version: z.string().nullable(),
+    systemApiKeyValid: z.boolean().nullable(), // null when the check could not run
+    error: z.string().optional(),
+  }),
+  storage: z.object({
+    backend: z.enum(["memory", "file"]),
+    healthy: z.boolean(),
+    nonces: z.number().nullable(),
+    linkages: z.number().nullable(),
+    error: z.string().optional(),
+  }),
+});
+
+// Pagination cursor shared by list procedures (zero-based page)
+const PageInputSchema = z.number().int().min(0).default(0);
+
+// Admin procedures accept the admin secret or a token from an allowlisted account
+const AdminAuthSchema = z.object({
+  adminSecret: z.string().optional(),
+  authToken: z.string().optional(), // NEAR signature from an account in adminAccounts
+});
+
+// Schema for a linkage as seen by admins
+export const AdminLinkageSchema = LinkageSchema.extend({
+  discourseUserId: z.number(),
+});
+
+// Schema for one line of a linkage export
+export const LinkageExportSchema = AdminLinkageSchema.extend({
+  userApiKey: z.string().min(1).optional(), // Only included when requested
+});
+
 // oRPC Contract definition
 export const contract = oc.router({
   // Step 1: Generate User API auth URL for Discourse
@@ -46,10 +373,14 @@ export const contract = oc.router({
       z.object({
         clientId: z.string().min(1, "Client ID is required"),
         applicationName: z.string().min(1, "Application name is required"),
+        scopes: z
+          .array(UserApiScopeSchema)
+          .min(1, "At least one scope is required")
+          .default(["read", "write"]),
       })
     )
     .output(AuthUrlSchema)
-    .errors(CommonPluginErrors),
+    .errors(ContractErrors),
 
   // Step 2: Complete link between NEAR account and Discourse user
   completeLink: oc
@@ -62,7 +393,18 @@ export const contract = oc.router({
       })
     )
     .output(LinkResultSchema)
-    .errors(CommonPluginErrors),
+    .errors(ContractErrors),
+
+  // Remove the link and revoke the stored Discourse User API key
+  unlink: oc
+    .route({ method: "POST", path: "/auth/unlink" })
+    .input(
+      z.object({
+        authToken: z.string().min(1, "NEAR auth token is required"), // NEAR signature for verification
+      })
+    )
+    .output(UnlinkResultSchema)
+    .errors(ContractErrors),
 
   // Step 3: Create a Discourse post (requires linked account)
   createPost: oc
@@ -72,11 +414,274 @@ export const contract = oc.router({
         authToken: z.string().min(1, "NEAR auth token is required"), // NEAR signature for verification
         title: z.string().min(15, "Title must be at least 15 characters"),
         raw: z.string().min(20, "Post content must be at least 20 characters"),
-        category: z.number().int().positive().optional(),
+        category: z
+          .union([z.number().int().positive(), z.string().min(1)])
+          .optional(), // Category id or slug ("parent/child" for subcategories)
+        checkSimilarTopics: z.boolean().default(false), // Fail instead of posting when similar topics exist
+      })
+    )
+    .output(PostResultSchema)
+    .errors(ContractErrors),
+
+  // Reply to an existing topic, optionally to a specific post (requires linked account)
+  createReply: oc
+    .route({ method: "POST", path: "/posts/reply" })
+    .input(
+      z.object({
+        authToken: z.string().min(1, "NEAR auth token is required"), // NEAR signature for verification
+        topicId: z.number().int().positive(),
+        raw: z.string().min(20, "Post content must be at least 20 characters"),
+        replyToPostNumber: z.number().int().positive().optional(),
+      })
+    )
+    .output(PostResultSchema)
+    .errors(ContractErrors),
+
+  // Edit a post authored by the linked account
+  editPost: oc
+    .route({ method: "POST", path: "/posts/edit" })
+    .input(
+      z.object({
+        authToken: z.string().min(1, "NEAR auth token is required"), // NEAR signature for verification
+        postId: z.number().int().positive(),
+        raw: z.string().min(20, "Post content must be at least 20 characters"),
+        editReason: z.string().max(1000).optional(), // Shown in the post's revision history
       })
     )
     .output(PostResultSchema)
-    .errors(CommonPluginErrors),
+    .errors(ContractErrors),
+
+  // Send a private message to Discourse users and/or linked NEAR accounts
+  sendPrivateMessage: oc
+    .route({ method: "POST", path: "/messages/send" })
+    .input(
+      z
+        .object({
+          authToken: z.string().min(1, "NEAR auth token is required"), // NEAR signature for verification
+          title: z.string().min(2, "Title must be at least 2 characters"),
+          raw: z
+            .string()
+            .min(10, "Message content must be at least 10 characters"),
+          usernames: z.array(z.string().min(1)).default([]), // Discourse usernames
+          nearAccounts: z.array(z.string().min(1)).default([]), // Resolved through their linkages
+        })
+        .refine(
+          (input) => input.usernames.length + input.nearAccounts.length > 0,
+          "At least one recipient is required"
+        )
+    )
+    .output(PostResultSchema)
+    .errors(ContractErrors),
+
+  // List private message threads of the linked account
+  listPrivateMessages: oc
+    .route({ method: "POST", path: "/messages/list" })
+    .input(
+      z.object({
+        authToken: z.string().min(1, "NEAR auth token is required"), // NEAR signature for verification
+        folder: z.enum(["inbox", "sent"]).default("inbox"),
+        page: PageInputSchema,
+      })
+    )
+    .output(TopicListSchema)
+    .errors(ContractErrors),
+
+  // Notifications of the linked account (replies, mentions, likes, ...)
+  getNotifications: oc
+    .route({ method: "POST", path: "/notifications/list" })
+    .input(
+      z.object({
+        authToken: z.string().min(1, "NEAR auth token is required"), // NEAR signature for verification
+        unreadOnly: z.boolean().default(false),
+        page: PageInputSchema,
+      })
+    )
+    .output(NotificationListSchema)
+    .errors(ContractErrors),
+
+  // Mark one notification, or all of them, as read
+  markNotificationsRead: oc
+    .route({ method: "POST", path: "/notifications/mark-read" })
+    .input(
+      z.object({
+        authToken: z.string().min(1, "NEAR auth token is required"), // NEAR signature for verification
+        notificationId: z.number().int().positive().optional(), // All notifications when omitted
+      })
+    )
+    .output(z.object({ success: z.boolean() }))
+    .errors(ContractErrors),
+
+  // Like a post as the linked account
+  likePost: oc
+    .route({ method: "POST", path: "/posts/like" })
+    .input(
+      z.object({
+        authToken: z.string().min(1, "NEAR auth token is required"), // NEAR signature for verification
+        postId: z.number().int().positive(),
+      })
+    )
+    .output(PostReactionsSchema)
+    .errors(ContractErrors),
+
+  // Remove the linked account's like from a post
+  unlikePost: oc
+    .route({ method: "POST", path: "/posts/unlike" })
+    .input(
+      z.object({
+        authToken: z.string().min(1, "NEAR auth token is required"), // NEAR signature for verification
+        postId: z.number().int().positive(),
+      })
+    )
+    .output(PostReactionsSchema)
+    .errors(ContractErrors),
+
+  // Toggle a custom emoji reaction (requires the discourse-reactions plugin)
+  togglePostReaction: oc
+    .route({ method: "POST", path: "/posts/react" })
+    .input(
+      z.object({
+        authToken: z.string().min(1, "NEAR auth token is required"), // NEAR signature for verification
+        postId: z.number().int().positive(),
+        reaction: z
+          .string()
+          .regex(/^[a-z0-9_+-]+$/, "Reaction must be an emoji name"), // e.g. "heart", "+1"
+      })
+    )
+    .output(PostReactionsSchema)
+    .errors(ContractErrors),
+
+  // Delete a post authored by the linked account
+  deletePost: oc
+    .route({ method: "POST", path: "/posts/delete" })
+    .input(
+      z.object({
+        authToken: z.string().min(1, "NEAR auth token is required"), // NEAR signature for verification
+        postId: z.number().int().positive(),
+      })
+    )
+    .output(DeleteResultSchema)
+    .errors(ContractErrors),
+
+  // List categories (with subcategories) visible to anonymous visitors
+  listCategories: oc
+    .route({ method: "GET", path: "/categories" })
+    .output(z.object({ categories: z.array(CategorySchema) }))
+    .errors(ContractErrors),
+
+  // Get a topic with a page of its posts
+  getTopic: oc
+    .route({ method: "POST", path: "/topics/get" })
+    .input(
+      z.object({
+        topicId: z.number().int().positive(),
+        page: PageInputSchema,
+      })
+    )
+    .output(TopicDetailSchema)
+    .errors(ContractErrors),
+
+  // Get a single post including its raw content
+  getPost: oc
+    .route({ method: "POST", path: "/posts/get" })
+    .input(
+      z.object({
+        postId: z.number().int().positive(),
+      })
+    )
+    .output(PostSchema)
+    .errors(ContractErrors),
+
+  // Check a post's current content against the NEAR signature it was made with
+  verifyPostProvenance: oc
+    .route({ method: "POST", path: "/posts/provenance" })
+    .input(
+      z.object({
+        postId: z.number().int().positive(),
+      })
+    )
+    .output(ProvenanceSchema.nullable())
+    .errors(ContractErrors),
+
+  // List the latest topics across the forum
+  listLatestTopics: oc
+    .route({ method: "POST", path: "/topics/latest" })
+    .input(
+      z.object({
+        page: PageInputSchema,
+      })
+    )
+    .output(TopicListSchema)
+    .errors(ContractErrors),
+
+  // List the latest topics in a category
+  listCategoryTopics: oc
+    .route({ method: "POST", path: "/topics/category" })
+    .input(
+      z.object({
+        categoryId: z.number().int().positive(),
+        page: PageInputSchema,
+      })
+    )
+    .output(TopicListSchema)
+    .errors(ContractErrors),
+
+  // Stream new and edited posts in a topic
+  watchTopic: oc
+    .route({ method: "POST", path: "/topics/watch" })
+    .input(
+      z.object({
+        topicId: z.number().int().positive(),
+        since: z.string().datetime().optional(), // Defaults to now
+      })
+    )
+    .output(eventIterator(PostChangeSchema))
+    .errors(ContractErrors),
+
+  // Stream new and edited posts in topics of a category
+  watchCategory: oc
+    .route({ method: "POST", path: "/categories/watch" })
+    .input(
+      z.object({
+        categoryId: z.number().int().positive(),
+        since: z.string().datetime().optional(), // Defaults to now
+      })
+    )
+    .output(eventIterator(PostChangeSchema))
+    .errors(ContractErrors),
+
+  // Search topics and posts
+  search: oc
+    .route({ method: "POST", path: "/search" })
+    .input(
+      z.object({
+        query: z.string().min(3, "Search term must be at least 3 characters"),
+        category: z
+          .union([z.number().int().positive(), z.string().min(1)])
+          .optional(), // Category id or slug ("parent/child" for subcategories)
+        nearAccount: z.string().min(1).optional(), // Author, via their linked Discourse user
+        tags: z.array(z.string().min(1)).optional(), // Matches any of the tags
+        status: z
+          .enum(["open", "closed", "archived", "noreplies", "single_user"])
+          .optional(),
+        after: z.string().date().optional(), // YYYY-MM-DD
+        before: z.string().date().optional(), // YYYY-MM-DD
+        page: PageInputSchema,
+      })
+    )
+    .output(SearchResultSchema)
+    .errors(ContractErrors),
+
+  // Find existing topics similar to a draft, e.g. before creating a proposal
+  findSimilarTopics: oc
+    .route({ method: "POST", path: "/topics/similar" })
+    .input(
+      z.object({
+        title: z.string().min(1, "Title is required"),
+        raw: z.string().optional(),
+      })
+    )
+    .output(z.object({ topics: z.array(SimilarTopicSchema) }))
+    .errors(ContractErrors),
 
   // Get linkage information for a NEAR account
   getLinkage: oc
@@ -87,7 +692,139 @@ export const contract = oc.router({
       })
     )
     .output(LinkageSchema.nullable())
-    .errors(CommonPluginErrors),
+    .errors(ContractErrors),
+
+  // Get the NEAR accounts linked to a Discourse user (by username or id)
+  getLinkageByDiscourseUser: oc
+    .route({ method: "POST", path: "/linkage/by-discourse-user" })
+    .input(
+      z
+        .object({
+          username: z.string().min(1).optional(),
+          userId: z.number().int().positive().optional(),
+        })
+        .refine(
+          (input) =>
+            (input.username === undefined) !== (input.userId === undefined),
+          "Provide either username or userId"
+        )
+    )
+    .output(z.object({ linkages: z.array(LinkageSchema) }))
+    .errors(ContractErrors),
+
+  // Admin: list linkages, optionally filtered by account or username
+  adminListLinkages: oc
+    .route({ method: "POST", path: "/admin/linkages/list" })
+    .input(
+      AdminAuthSchema.extend({
+        page: PageInputSchema,
+        pageSize: z.number().int().min(1).max(200).default(50),
+        nearAccount: z.string().optional(), // Substring match
+        discourseUsername: z.string().optional(), // Case-insensitive substring match
+      })
+    )
+    .output(
+      z.object({
+        linkages: z.array(AdminLinkageSchema),
+        total: z.number(),
+        nextPage: z.number().nullable(),
+      })
+    )
+    .errors(ContractErrors),
+
+  // Admin: remove a linkage without the user's signature
+  adminUnlink: oc
+    .route({ method: "POST", path: "/admin/linkages/unlink" })
+    .input(
+      AdminAuthSchema.extend({
+        nearAccount: z.string().min(1, "NEAR account is required"),
+        revoke: z.boolean().default(true), // Also revoke the User API key on Discourse
+      })
+    )
+    .output(UnlinkResultSchema)
+    .errors(ContractErrors),
+
+  // Admin: export linkages as JSONL, one LinkageExportSchema per line
+  adminExportLinkages: oc
+    .route({ method: "POST", path: "/admin/linkages/export" })
+    .input(
+      AdminAuthSchema.extend({
+        includeApiKeys: z.boolean().default(false),
+      })
+    )
+    .output(z.object({ jsonl: z.string(), count: z.number() }))
+    .errors(ContractErrors),
+
+  // Admin: import linkages exported with includeApiKeys
+  adminImportLinkages: oc
+    .route({ method: "POST", path: "/admin/linkages/import" })
+    .input(
+      AdminAuthSchema.extend({
+        jsonl: z.string().min(1, "JSONL content is required"),
+        overwrite: z.boolean().default(false), // Replace linkages that already exist
+      })
+    )
+    .output(
+      z.object({
+        imported: z.number(),
+        skipped: z.array(z.object({ line: z.number(), reason: z.string() })),
+      })
+    )
+    .errors(ContractErrors),
+
+  // Admin: query the audit log, newest entries first
+  getAuditLog: oc
+    .route({ method: "POST", path: "/admin/audit" })
+    .input(
+      AdminAuthSchema.extend({
+        nearAccount: z.string().optional(),
+        action: AuditActionSchema.optional(),
+        from: z.string().datetime().optional(), // Inclusive
+        to: z.string().datetime().optional(), // Exclusive
+        page: PageInputSchema,
+        pageSize: z.number().int().min(1).max(200).default(50),
+      })
+    )
+    .output(
+      z.object({
+        entries: z.array(AuditEntrySchema),
+        total: z.number(),
+        nextPage: z.number().nullable(),
+      })
+    )
+    .errors(ContractErrors),
+
+  // Internal: not a URL to give Discourse. The host's own webhook endpoint
+  // forwards the raw body and X-Discourse-Event-* headers here, because the
+  // signature covers the exact bytes and procedures only see parsed input.
+  forwardWebhook: oc
+    .route({ method: "POST", path: "/webhooks/forward" })
+    .input(
+      z.object({
+        signature: z.string().min(1, "Event signature is required"), // X-Discourse-Event-Signature
+        event: z.string().min(1, "Event name is required"), // X-Discourse-Event
+        eventId: z.string().optional(), // X-Discourse-Event-Id
+        body: z.string().min(1, "Raw request body is required"), // Exactly as received; the signature covers these bytes
+      })
+    )
+    .output(
+      z.object({
+        received: z.literal(true),
+        type: WebhookEventTypeSchema,
+      })
+    )
+    .errors(ContractErrors),
+
+  // Admin: stream verified webhook events as they arrive
+  streamWebhookEvents: oc
+    .route({ method: "POST", path: "/webhooks/events" })
+    .input(
+      AdminAuthSchema.extend({
+        types: z.array(WebhookEventTypeSchema).optional(), // All types when omitted
+      })
+    )
+    .output(eventIterator(WebhookEventSchema))
+    .errors(ContractErrors),
 
   // Health check procedure
   ping: oc
@@ -99,5 +836,11 @@ export const contract = oc.router({
         discourseConnected: z.boolean(),
       })
     )
-    .errors(CommonPluginErrors),
+    .errors(ContractErrors),
+
+  // Detailed health report for monitoring
+  health: oc
+    .route({ method: "GET", path: "/health" })
+    .output(HealthSchema)
+    .errors(ContractErrors),
 });
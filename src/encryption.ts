@@ -0,0 +1,129 @@
+import {
+  createCipheriv,
+  createDecipheriv,
+  createHash,
+  hkdfSync,
+  randomBytes,
+} from "crypto";
+
+const ALGORITHM = "aes-256-gcm";
+const IV_LENGTH = 12;
+const KEY_LENGTH = 32;
+
+/**
+ * Ciphertext envelope: the value is encrypted with a random data key, and the
+ * data key is itself encrypted ("wrapped") with a key-encryption key derived
+ * from the configured secret identified by `keyId`.
+ */
+export type EncryptedValue = {
+  keyId: string;
+  wrappedKey: string;
+  iv: string;
+  tag: string;
+  ciphertext: string;
+};
+
+export function isEncryptedValue(value: unknown): value is EncryptedValue {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    typeof (value as EncryptedValue).keyId === "string" &&
+    typeof (value as EncryptedValue).wrappedKey === "string" &&
+    typeof (value as EncryptedValue).ciphertext === "string"
+  );
+}
+
+function seal(key: Buffer, plaintext: Buffer) {
+  const iv = randomBytes(IV_LENGTH);
+  const cipher = createCipheriv(ALGORITHM, key, iv);
+  const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+  return { iv, tag: cipher.getAuthTag(), ciphertext };
+}
+
+function open(key: Buffer, iv: Buffer, tag: Buffer, ciphertext: Buffer) {
+  const decipher = createDecipheriv(ALGORITHM, key, iv);
+  decipher.setAuthTag(tag);
+  return Buffer.concat([decipher.update(ciphertext), decipher.final()]);
+}
+
+/**
+ * EnvelopeCipher - Encrypts secrets at rest with rotatable key-encryption keys
+ *
+ * New values are always sealed with the current secret. Secrets passed as
+ * `previousSecrets` can still open existing envelopes, so a key can be rotated
+ * by promoting a new secret and keeping the old one around until every stored
+ * value has been re-encrypted.
+ */
+export class EnvelopeCipher {
+  private readonly keys = new Map<string, Buffer>();
+  private readonly currentKeyId: string;
+
+  constructor(secret: string, previousSecrets: string[] = []) {
+    this.currentKeyId = this.addKey(secret);
+    for (const previous of previousSecrets) {
+      this.addKey(previous);
+    }
+  }
+
+  encrypt(plaintext: string): EncryptedValue {
+    const dataKey = randomBytes(KEY_LENGTH);
+    const wrapped = seal(this.keys.get(this.currentKeyId)!, dataKey);
+    const sealed = seal(dataKey, Buffer.from(plaintext, "utf8"));
+
+    return {
+      keyId: this.currentKeyId,
+      wrappedKey: Buffer.concat([
+        wrapped.iv,
+        wrapped.tag,
+        wrapped.ciphertext,
+      ]).toString("base64"),
+      iv: sealed.iv.toString("base64"),
+      tag: sealed.tag.toString("base64"),
+      ciphertext: sealed.ciphertext.toString("base64"),
+    };
+  }
+
+  decrypt(value: EncryptedValue): string {
+    const keyEncryptionKey = this.keys.get(value.keyId);
+    if (!keyEncryptionKey) {
+      throw new Error(`No encryption key configured for key id ${value.keyId}`);
+    }
+
+    const wrapped = Buffer.from(value.wrappedKey, "base64");
+    const dataKey = open(
+      keyEncryptionKey,
+      wrapped.subarray(0, IV_LENGTH),
+      wrapped.subarray(IV_LENGTH, IV_LENGTH + 16),
+      wrapped.subarray(IV_LENGTH + 16)
+    );
+
+    return open(
+      dataKey,
+      Buffer.from(value.iv, "base64"),
+      Buffer.from(value.tag, "base64"),
+      Buffer.from(value.ciphertext, "base64")
+    ).toString("utf8");
+  }
+
+  /**
+   * Whether the value was sealed with a key other than the current one
+   */
+  needsRotation(value: EncryptedValue): boolean {
+    return value.keyId !== this.currentKeyId;
+  }
+
+  private addKey(secret: string): string {
+    const key = Buffer.from(
+      hkdfSync(
+        "sha256",
+        secret,
+        Buffer.alloc(0),
+        "discourse-plugin/linkage-key-encryption",
+        KEY_LENGTH
+      )
+    );
+    const keyId = createHash("sha256").update(key).digest("hex").slice(0, 16);
+    this.keys.set(keyId, key);
+    return keyId;
+  }
+}
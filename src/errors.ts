@@ -0,0 +1,222 @@
+import { Cause, Data, Effect, Exit, Option } from "every-plugin/effect";
+import type { ORPCErrorConstructorMap } from "every-plugin/orpc";
+import type { ContractErrors } from "./contract";
+
+export type PluginErrors = ORPCErrorConstructorMap<typeof ContractErrors>;
+
+/**
+ * DecryptionError - The Discourse User API key payload could not be opened
+ *
+ * - `invalid_base64`: the payload is not valid base64
+ * - `wrong_key`: RSA decryption failed, usually because the payload was
+ *   encrypted for a different nonce's key pair
+ * - `invalid_json`: decryption succeeded but the plaintext is not the
+ *   expected JSON document
+ */
+export class DecryptionError extends Data.TaggedError("DecryptionError")<{
+  readonly reason: "invalid_base64" | "wrong_key" | "invalid_json";
+  readonly message: string;
+}> {}
+
+/**
+ * DiscourseApiError - Discourse answered with a non-2xx status
+ *
+ * `errors` carries Discourse's own `errors[]` messages; `retryAfter` is the
+ * number of seconds Discourse asked us to wait, when it said so.
+ */
+export class DiscourseApiError extends Data.TaggedError("DiscourseApiError")<{
+  readonly status: number;
+  readonly message: string;
+  readonly errors: string[];
+  readonly retryAfter?: number;
+}> {}
+
+/**
+ * DiscourseResponseError - Discourse answered 2xx with a body that is not
+ * JSON or not the expected shape, e.g. a proxy page or an incompatible version
+ */
+export class DiscourseResponseError extends Data.TaggedError(
+  "DiscourseResponseError"
+)<{
+  readonly status: number;
+  readonly message: string;
+}> {}
+
+/**
+ * DiscourseNetworkError - Discourse could not be reached (DNS, TLS, timeout)
+ */
+export class DiscourseNetworkError extends Data.TaggedError(
+  "DiscourseNetworkError"
+)<{
+  readonly message: string;
+}> {}
+
+/**
+ * NearVerificationError - The NEP-413 auth token was rejected
+ */
+export class NearVerificationError extends Data.TaggedError(
+  "NearVerificationError"
+)<{
+  readonly message: string;
+}> {}
+
+export type PluginFailure =
+  | DecryptionError
+  | DiscourseApiError
+  | DiscourseResponseError
+  | DiscourseNetworkError
+  | NearVerificationError;
+
+/**
+ * Build a DiscourseApiError from a failed response and its body text
+ */
+export function discourseApiError(
+  method: string,
+  path: string,
+  response: Response,
+  body: string
+): DiscourseApiError {
+  let errors: string[] = [];
+  let waitSeconds: number | undefined;
+
+  try {
+    const data = JSON.parse(body);
+    if (Array.isArray(data?.errors)) {
+      errors = data.errors.map(String);
+    } else if (typeof data?.error === "string") {
+      errors = [data.error];
+    }
+    if (typeof data?.extras?.wait_seconds === "number") {
+      waitSeconds = data.extras.wait_seconds;
+    }
+  } catch {
+    // Not JSON (e.g. an HTML error page from a proxy)
+  }
+
+  const retryAfterHeader = Number(response.headers.get("Retry-After"));
+  const retryAfter =
+    Number.isFinite(retryAfterHeader) && retryAfterHeader > 0
+      ? retryAfterHeader
+      : waitSeconds;
+
+  return new DiscourseApiError({
+    status: response.status,
+    message: `${method} ${path} failed with ${response.status}${
+      errors.length > 0 ? `: ${errors.join("; ")}` : ""
+    }`,
+    errors,
+    ...(retryAfter !== undefined ? { retryAfter } : {}),
+  });
+}
+
+/**
+ * Map a tagged failure to the matching contract error
+ */
+export function toPluginError(error: PluginFailure, errors: PluginErrors) {
+  switch (error._tag) {
+    case "NearVerificationError":
+      return errors.UNAUTHORIZED({
+        message: error.message,
+        data: { apiKeyProvided: true, provider: "near", authType: "token" },
+      });
+
+    // One message for every reason, so callers learn nothing about the key
+    case "DecryptionError":
+      return errors.BAD_REQUEST({
+        message: "Encrypted payload could not be decrypted",
+        data: { invalidFields: ["payload"] },
+      });
+
+    // The fault is upstream, not in the caller's request
+    case "DiscourseResponseError":
+    case "DiscourseNetworkError":
+      return errors.SERVICE_UNAVAILABLE({
+        message: error.message,
+        data: {},
+      });
+
+    case "DiscourseApiError":
+      return discourseToPluginError(error, errors);
+  }
+}
+
+// Contract retry hints are whole seconds, at least one
+export const retryAfterSeconds = (seconds: number) =>
+  Math.max(1, Math.ceil(seconds));
+
+function discourseToPluginError(
+  error: DiscourseApiError,
+  errors: PluginErrors
+) {
+  const { status, message } = error;
+  const validationErrors = error.errors.map((discourseMessage) => ({
+    field: "discourse",
+    message: discourseMessage,
+  }));
+
+  if (status === 401) {
+    return errors.UNAUTHORIZED({
+      message,
+      data: {
+        apiKeyProvided: true,
+        provider: "discourse",
+        authType: "apiKey",
+        validationErrors,
+      },
+    });
+  }
+  if (status === 403) {
+    return errors.FORBIDDEN({ message, data: { validationErrors } });
+  }
+  if (status === 404) {
+    return errors.NOT_FOUND({ message, data: { validationErrors } });
+  }
+  if (status === 429) {
+    return errors.RATE_LIMITED({
+      message,
+      data: {
+        retryAfter: retryAfterSeconds(error.retryAfter ?? 60),
+        limitType: "requests",
+        validationErrors,
+      },
+    });
+  }
+  if (status >= 500) {
+    return errors.SERVICE_UNAVAILABLE({
+      message,
+      data: {
+        ...(error.retryAfter !== undefined
+          ? { retryAfter: retryAfterSeconds(error.retryAfter) }
+          : {}),
+        validationErrors,
+      },
+    });
+  }
+
+  return errors.BAD_REQUEST({ message, data: { validationErrors } });
+}
+
+const isPluginFailure = (error: unknown): error is PluginFailure =>
+  error instanceof DecryptionError ||
+  error instanceof DiscourseApiError ||
+  error instanceof DiscourseResponseError ||
+  error instanceof DiscourseNetworkError ||
+  error instanceof NearVerificationError;
+
+/**
+ * Run an effect inside a procedure handler, rethrowing tagged failures as
+ * typed contract errors. Anything else propagates as an internal error.
+ */
+export async function runEffect<A, E>(
+  effect: Effect.Effect<A, E>,
+  errors: PluginErrors
+): Promise<A> {
+  const exit = await Effect.runPromiseExit(effect);
+  if (Exit.isSuccess(exit)) return exit.value;
+
+  const failure = Cause.failureOption(exit.cause);
+  if (Option.isSome(failure) && isPluginFailure(failure.value)) {
+    throw toPluginError(failure.value, errors);
+  }
+  throw Cause.squash(exit.cause);
+}
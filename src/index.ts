@@ -1,14 +1,70 @@
-import { createPlugin } from "every-plugin";
+import { createHash, timingSafeEqual } from "crypto";
+import { createPlugin, PluginConfigurationError } from "every-plugin";
 import { Effect } from "every-plugin/effect";
+import { MemoryPublisher, ORPCError } from "every-plugin/orpc";
 import { z } from "every-plugin/zod";
-import { contract } from "./contract";
+import { contract, LinkageExportSchema } from "./contract";
 import {
   DiscourseService,
   CryptoService,
   NEARService,
   NonceManager,
   LinkageStore,
+  ProvenanceStore,
+  DEFAULT_USER_API_SCOPES,
+  actionMessage,
+  missingScopes,
+  type DiscourseAuth,
+  type UserApiScope,
 } from "./service";
+import { createStorage } from "./storage";
+import { EnvelopeCipher } from "./encryption";
+import { retryAfterSeconds, runEffect, type PluginErrors } from "./errors";
+import { DuplicateContentDetector, RateLimiter } from "./rate-limit";
+import { createAuditLog, type AuditEvent } from "./audit";
+import {
+  parseWebhookEvent,
+  verifyWebhookSignature,
+  type WebhookEvent,
+} from "./webhooks";
+import { topicActivityPoller, WatchHub } from "./watch";
+
+// Discourse usernames are case-insensitive
+const isPostAuthor = (post: { username: string }, discourseUsername: string) =>
+  post.username.toLowerCase() === discourseUsername.toLowerCase();
+
+// Compare digests so neither content nor length leaks through timing
+const secretsMatch = (provided: string, expected: string) =>
+  timingSafeEqual(
+    createHash("sha256").update(provided).digest(),
+    createHash("sha256").update(expected).digest()
+  );
+
+// Audit fields a handler fills in as it goes
+type AuditDetails = Partial<
+  Pick<
+    AuditEvent,
+    | "actor"
+    | "nearAccount"
+    | "discourseUsername"
+    | "authType"
+    | "postId"
+    | "topicId"
+  >
+>;
+
+// Linkage as returned to callers, without the User API key
+const describeLinkage = (linkage: {
+  nearAccount: string;
+  discourseUsername: string;
+  verifiedAt: string;
+  scopes?: UserApiScope[];
+}) => ({
+  nearAccount: linkage.nearAccount,
+  discourseUsername: linkage.discourseUsername,
+  verifiedAt: linkage.verifiedAt,
+  scopes: linkage.scopes ?? DEFAULT_USER_API_SCOPES,
+});
 
 /**
  * Discourse Plugin
@@ -30,10 +86,54 @@ export default createPlugin({
     discourseApiUsername: z.string().default("system"),
     clientId: z.string().default("discourse-near-plugin"),
     recipient: z.string().default("social.near"),
+    // "impersonate" posts with the system API key as the linked username
+    userActionAuth: z
+      .enum(["user-api-key", "impersonate"])
+      .default("user-api-key"),
+    // Whether one Discourse user may be linked to several NEAR accounts
+    linkagePolicy: z.enum(["one-to-one", "one-to-many"]).default("one-to-many"),
+    // NEAR accounts allowed to call admin procedures
+    adminAccounts: z.array(z.string()).default([]),
+    storageBackend: z.enum(["memory", "file"]).default("memory"),
+    storageDir: z.string().default("./.discourse-plugin"),
+    healthCheckTimeoutMs: z.number().int().positive().default(5000),
+    // Discourse HTTP calls: per-attempt timeout and retries with backoff
+    requestTimeoutMs: z.number().int().positive().default(10000),
+    maxRetries: z.number().int().min(0).max(10).default(2),
+    retryBaseDelayMs: z.number().int().min(0).default(500),
+    // Write procedures allowed per window; 0 disables a limit
+    rateLimitWindowMs: z.number().int().positive().default(60000),
+    rateLimitPerAccount: z.number().int().min(0).default(10),
+    rateLimitPerDiscourseUser: z.number().int().min(0).default(10),
+    rateLimitGlobal: z.number().int().min(0).default(100),
+    // Reject identical post bodies from one account within this window
+    duplicateContentWindowMs: z.number().int().min(0).default(600000),
+    // Keep the NEAR signature of every post, reply and edit made through us
+    signedContentProvenance: z.boolean().default(false),
+    // How often watchTopic and watchCategory poll each watched topic or
+    // category, however many streams share it
+    watchPollIntervalMs: z.number().int().min(1000).default(15000),
+    // Open watchTopic and watchCategory streams allowed at once
+    maxWatchStreams: z.number().int().min(1).default(100),
   }),
 
   secrets: z.object({
     discourseApiKey: z.string().min(1, "Discourse System API key is required"),
+    linkageEncryptionKey: z
+      .string()
+      .min(32, "Linkage encryption key must be at least 32 characters")
+      .optional(),
+    // Comma-separated retired keys, kept so existing linkages can be rotated
+    previousLinkageEncryptionKeys: z.string().optional(),
+    adminSecret: z
+      .string()
+      .min(32, "Admin secret must be at least 32 characters")
+      .optional(),
+    // Secret configured on the Discourse webhook; enables forwardWebhook
+    webhookSecret: z
+      .string()
+      .min(12, "Webhook secret must be at least 12 characters")
+      .optional(),
   }),
 
   contract,
@@ -44,20 +144,108 @@ export default createPlugin({
       const discourseService = new DiscourseService(
         config.variables.discourseBaseUrl,
         config.secrets.discourseApiKey,
-        config.variables.discourseApiUsername
+        config.variables.discourseApiUsername,
+        {
+          timeoutMs: config.variables.requestTimeoutMs,
+          maxRetries: config.variables.maxRetries,
+          retryBaseDelayMs: config.variables.retryBaseDelayMs,
+        }
       );
 
       const cryptoService = new CryptoService();
-      const nearService = new NEARService(config.variables.recipient);
-      const nonceManager = new NonceManager();
-      const linkageStore = new LinkageStore();
 
-      // Start background cleanup task for expired nonces
+      // Persist nonces and linkages in the configured backend
+      const { storageBackend, storageDir } = config.variables;
+      const { linkageEncryptionKey, previousLinkageEncryptionKeys } =
+        config.secrets;
+
+      if (storageBackend !== "memory" && !linkageEncryptionKey) {
+        return yield* Effect.fail(
+          new PluginConfigurationError({
+            message:
+              "linkageEncryptionKey is required when linkages are persisted",
+            retryable: false,
+          })
+        );
+      }
+
+      const cipher = linkageEncryptionKey
+        ? new EnvelopeCipher(
+            linkageEncryptionKey,
+            (previousLinkageEncryptionKeys ?? "")
+              .split(",")
+              .map((key) => key.trim())
+              .filter((key) => key.length > 0)
+          )
+        : undefined;
+
+      const nonceManager = new NonceManager(
+        createStorage(storageBackend, "nonces", storageDir),
+        cipher
+      );
+      const linkageStore = new LinkageStore(
+        createStorage(storageBackend, "linkages", storageDir),
+        cipher,
+        createStorage(storageBackend, "linkage-index", storageDir)
+      );
+      const auditLog = createAuditLog(storageBackend, storageDir);
+      const provenanceStore = new ProvenanceStore(
+        createStorage(storageBackend, "provenance", storageDir)
+      );
+      // Shared so a token cannot be replayed against another instance
+      const nearService = new NEARService(
+        config.variables.recipient,
+        createStorage(storageBackend, "near-nonces", storageDir)
+      );
+
+      // Throttle writes so one caller cannot get the forum keys banned
+      const { rateLimitWindowMs } = config.variables;
+      const rateLimiters = {
+        account: new RateLimiter(
+          config.variables.rateLimitPerAccount,
+          rateLimitWindowMs
+        ),
+        discourseUser: new RateLimiter(
+          config.variables.rateLimitPerDiscourseUser,
+          rateLimitWindowMs
+        ),
+        global: new RateLimiter(
+          config.variables.rateLimitGlobal,
+          rateLimitWindowMs
+        ),
+      };
+      const duplicateDetector = new DuplicateContentDetector(
+        config.variables.duplicateContentWindowMs
+      );
+
+      // Fan verified webhook events out to streamWebhookEvents subscribers
+      const webhookEvents = new MemoryPublisher<{ event: WebhookEvent }>();
+
+      // Ends every open watch stream when the plugin shuts down
+      const watchController = new AbortController();
+      yield* Effect.addFinalizer(() =>
+        Effect.sync(() => watchController.abort())
+      );
+      const watchHub = new WatchHub({
+        intervalMs: config.variables.watchPollIntervalMs,
+        maxStreams: config.variables.maxWatchStreams,
+        signal: watchController.signal,
+        // Keep polling through outages and throttling; end streams on the rest
+        isTransient: (error) =>
+          error instanceof ORPCError &&
+          (error.code === "SERVICE_UNAVAILABLE" ||
+            error.code === "RATE_LIMITED"),
+      });
+
+      // Start background cleanup task for expired nonces and limiter state
       yield* Effect.forkScoped(
         Effect.gen(function* () {
           while (true) {
             yield* Effect.sleep("5 minutes");
             nonceManager.cleanup();
+            nearService.cleanup();
+            Object.values(rateLimiters).forEach((limiter) => limiter.cleanup());
+            duplicateDetector.cleanup();
           }
         })
       );
@@ -68,6 +256,12 @@ export default createPlugin({
         nearService,
         nonceManager,
         linkageStore,
+        provenanceStore,
+        auditLog,
+        rateLimiters,
+        duplicateDetector,
+        webhookEvents,
+        watchHub,
         config,
       };
     }),
@@ -81,109 +275,1094 @@ export default createPlugin({
       nearService,
       nonceManager,
       linkageStore,
+      provenanceStore,
+      auditLog,
+      rateLimiters,
+      duplicateDetector,
+      webhookEvents,
+      watchHub,
       config,
     } = context;
 
+    const actAs = (linkage: {
+      discourseUsername: string;
+      userApiKey: string;
+    }): DiscourseAuth =>
+      config.variables.userActionAuth === "impersonate"
+        ? { type: "impersonate", username: linkage.discourseUsername }
+        : {
+            type: "user-api-key",
+            userApiKey: linkage.userApiKey,
+            username: linkage.discourseUsername,
+          };
+
+    // Resolve the caller's linkage and check it was granted the needed scopes
+    const requireLinkage = (
+      nearAccount: string,
+      action: string,
+      scopes: UserApiScope[],
+      errors: PluginErrors
+    ) => {
+      const linkage = linkageStore.get(nearAccount);
+      if (!linkage) {
+        throw errors.FORBIDDEN({
+          message:
+            "No linked Discourse account. Please link your account first.",
+          data: { requiredPermissions: ["linked-account"], action },
+        });
+      }
+
+      const missing = missingScopes(
+        linkage.scopes ?? DEFAULT_USER_API_SCOPES,
+        scopes
+      );
+      if (missing.length > 0) {
+        throw errors.FORBIDDEN({
+          message: `Linked account is missing required scopes: ${missing.join(
+            ", "
+          )}. Please re-link with these scopes.`,
+          data: { requiredPermissions: missing, action },
+        });
+      }
+
+      return linkage;
+    };
+
+    // Admins present the admin secret, or a NEAR signature from an
+    // allowlisted account bound to the procedure and its parameters
+    const requireAdmin = async (
+      input: { adminSecret?: string; authToken?: string },
+      action: string,
+      errors: PluginErrors
+    ) => {
+      const { adminSecret, authToken, ...params } = input;
+
+      if (adminSecret !== undefined) {
+        const expected = config.secrets.adminSecret;
+        if (expected && secretsMatch(adminSecret, expected)) {
+          return "admin-secret";
+        }
+        throw errors.UNAUTHORIZED({
+          message: "Invalid admin secret",
+          data: { apiKeyProvided: true, authType: "token" },
+        });
+      }
+
+      if (authToken !== undefined) {
+        const nearAccount = await runEffect(
+          nearService.verifySignature(
+            authToken,
+            300000,
+            actionMessage(action, params)
+          ),
+          errors
+        );
+        if (!config.variables.adminAccounts.includes(nearAccount)) {
+          throw errors.FORBIDDEN({
+            message: `${nearAccount} is not an admin account`,
+            data: { requiredPermissions: ["admin"], action },
+          });
+        }
+        return nearAccount;
+      }
+
+      throw errors.UNAUTHORIZED({
+        message: "Admin secret or admin auth token is required",
+        data: { apiKeyProvided: false },
+      });
+    };
+
+    // Drop linkages even if Discourse is unreachable; the key can still be
+    // revoked by the user from their Discourse preferences
+    const revokeQuietly = (userApiKey: string, action: string) =>
+      Effect.runPromise(
+        discourseService.revokeUserApiKey(userApiKey).pipe(
+          Effect.as(true),
+          Effect.catchAll((error) =>
+            Effect.sync(() => {
+              console.error(
+                `[${action}] User API key revocation failed:`,
+                error
+              );
+              return false;
+            })
+          )
+        )
+      );
+
+    // Run a handler body and record its outcome. The body fills in who
+    // acted and on what as it learns it, so failures are attributed too.
+    // Failures before the caller is authenticated are not recorded, so
+    // anonymous requests cannot flood the log.
+    const audited = async <T>(
+      action: AuditEvent["action"],
+      run: (entry: AuditDetails) => Promise<T>
+    ): Promise<T> => {
+      const entry: AuditDetails = {};
+      const record = (outcome: AuditEvent["outcome"], error: string | null) =>
+        auditLog.record({
+          action,
+          actor: entry.actor ?? null,
+          nearAccount: entry.nearAccount ?? null,
+          discourseUsername: entry.discourseUsername ?? null,
+          authType: entry.authType ?? null,
+          postId: entry.postId ?? null,
+          topicId: entry.topicId ?? null,
+          outcome,
+          error,
+        });
+
+      try {
+        const result = await run(entry);
+        record("success", null);
+        return result;
+      } catch (error) {
+        if (entry.actor !== undefined) {
+          record(
+            "failure",
+            error instanceof Error ? error.message : String(error)
+          );
+        }
+        throw error;
+      }
+    };
+
+    const auditLinkage = (
+      entry: AuditDetails,
+      linkage: { discourseUsername: string }
+    ) =>
+      Object.assign(entry, {
+        discourseUsername: linkage.discourseUsername,
+        authType: config.variables.userActionAuth,
+      });
+
+    // Count a write against every limit, or reject it without counting
+    const enforceRateLimits = (
+      linkage: { nearAccount: string; discourseUserId: number },
+      errors: PluginErrors
+    ) => {
+      const checks = [
+        [rateLimiters.account, linkage.nearAccount, "NEAR account"],
+        [
+          rateLimiters.discourseUser,
+          String(linkage.discourseUserId),
+          "Discourse user",
+        ],
+        [rateLimiters.global, "global", "plugin"],
+      ] as const;
+
+      for (const [limiter, key, scope] of checks) {
+        const decision = limiter.check(key);
+        if (!decision.allowed) {
+          const retryAfter = retryAfterSeconds(decision.retryAfterMs / 1000);
+          throw errors.RATE_LIMITED({
+            message: `Too many write requests for this ${scope}. Try again in ${retryAfter}s.`,
+            data: {
+              retryAfter,
+              remainingRequests: 0,
+              resetTime: new Date(decision.resetAt).toISOString(),
+              limitType: "requests",
+            },
+          });
+        }
+      }
+
+      checks.forEach(([limiter, key]) => limiter.hit(key));
+    };
+
+    const rejectDuplicate = (
+      nearAccount: string,
+      raw: string,
+      errors: PluginErrors
+    ) => {
+      if (duplicateDetector.isDuplicate(nearAccount, raw)) {
+        throw errors.BAD_REQUEST({
+          message: "Identical content was already posted recently",
+          data: { invalidFields: ["raw"] },
+        });
+      }
+    };
+
+    // Stream until the caller disconnects or the plugin shuts down
+    const watch = (
+      key: string,
+      feed: Parameters<WatchHub["open"]>[1],
+      errors: PluginErrors
+    ) => {
+      const changes = watchHub.open(key, feed);
+      if (!changes) {
+        throw errors.RATE_LIMITED({
+          message: `Too many open watch streams (${config.variables.maxWatchStreams})`,
+          data: {
+            retryAfter: retryAfterSeconds(
+              config.variables.watchPollIntervalMs / 1000
+            ),
+          },
+        });
+      }
+      return changes;
+    };
+
+    const recordProvenance = (
+      params: Parameters<ProvenanceStore["record"]>[0]
+    ) => {
+      if (config.variables.signedContentProvenance) {
+        provenanceStore.record(params);
+      }
+    };
+
     return {
       getUserApiAuthUrl: builder.getUserApiAuthUrl.handler(
-        async ({ input }) => {
-          const { publicKey, privateKey } = await Effect.runPromise(
-            cryptoService.generateKeyPair()
+        async ({ input, errors }) => {
+          const { publicKey, privateKey } = await runEffect(
+            cryptoService.generateKeyPair(),
+            errors
           );
 
-          const nonce = nonceManager.create(input.clientId, privateKey);
+          const nonce = nonceManager.create(
+            input.clientId,
+            privateKey,
+            input.scopes
+          );
 
-          const authUrl = await Effect.runPromise(
+          const authUrl = await runEffect(
             discourseService.generateAuthUrl({
               clientId: input.clientId,
               applicationName: input.applicationName,
               nonce,
               publicKey,
-            })
+              scopes: input.scopes,
+            }),
+            errors
           );
 
           return { authUrl, nonce };
         }
       ),
 
-      completeLink: builder.completeLink.handler(async ({ input, errors }) => {
-        const nonceData = nonceManager.get(input.nonce);
-        if (!nonceData) {
-          throw errors.BAD_REQUEST({
-            message: "Invalid or expired nonce",
-            data: {},
+      completeLink: builder.completeLink.handler(({ input, errors }) =>
+        audited("complete-link", async (entry) => {
+          const nonceData = nonceManager.get(input.nonce);
+          if (!nonceData) {
+            throw errors.BAD_REQUEST({
+              message: "Invalid or expired nonce",
+              data: {},
+            });
+          }
+
+          if (!nonceManager.verify(input.nonce, nonceData.clientId)) {
+            throw errors.BAD_REQUEST({
+              message: "Invalid or expired nonce",
+              data: {},
+            });
+          }
+
+          // Signed before the payload is opened, and the nonce is spent on
+          // any decryption failure, so the private key cannot be used as a
+          // padding oracle
+          const nearAccount = await runEffect(
+            nearService.verifySignature(
+              input.authToken,
+              600000,
+              actionMessage("complete-link", { nonce: input.nonce })
+            ),
+            errors
+          );
+          Object.assign(entry, { actor: nearAccount, nearAccount });
+
+          const userApiKey = await runEffect(
+            cryptoService
+              .decryptPayload(input.payload, nonceData.privateKey)
+              .pipe(
+                Effect.tapError(() =>
+                  Effect.sync(() => nonceManager.consume(input.nonce))
+                )
+              ),
+            errors
+          );
+
+          const discourseUser = await runEffect(
+            discourseService.getCurrentUser(userApiKey),
+            errors
+          );
+          entry.discourseUsername = discourseUser.username;
+
+          if (config.variables.linkagePolicy === "one-to-one") {
+            const existing = linkageStore
+              .findByDiscourseUser({ userId: discourseUser.id })
+              .find((linkage) => linkage.nearAccount !== nearAccount);
+
+            if (existing) {
+              // The new key will never be used, so don't leave it active
+              await Effect.runPromise(
+                discourseService
+                  .revokeUserApiKey(userApiKey)
+                  .pipe(Effect.orElseSucceed(() => undefined))
+              );
+              nonceManager.consume(input.nonce);
+
+              throw errors.FORBIDDEN({
+                message: `Discourse user ${discourseUser.username} is already linked to ${existing.nearAccount}. Unlink it first.`,
+                data: {
+                  requiredPermissions: ["unlinked-discourse-user"],
+                  action: "complete-link",
+                },
+              });
+            }
+          }
+
+          linkageStore.set(nearAccount, {
+            nearAccount,
+            discourseUsername: discourseUser.username,
+            discourseUserId: discourseUser.id,
+            userApiKey,
+            scopes: nonceData.scopes,
+            verifiedAt: new Date().toISOString(),
+          });
+
+          nonceManager.consume(input.nonce);
+
+          return {
+            success: true,
+            nearAccount,
+            discourseUsername: discourseUser.username,
+            message: `Successfully linked ${nearAccount} to ${discourseUser.username}`,
+          };
+        })
+      ),
+
+      unlink: builder.unlink.handler(({ input, errors }) =>
+        audited("unlink", async (entry) => {
+          const nearAccount = await runEffect(
+            nearService.verifySignature(
+              input.authToken,
+              300000,
+              actionMessage("unlink", {})
+            ),
+            errors
+          );
+          Object.assign(entry, { actor: nearAccount, nearAccount });
+
+          const linkage = linkageStore.get(nearAccount);
+          if (!linkage) {
+            throw errors.NOT_FOUND({
+              message: "No linked Discourse account found",
+              data: { resource: "linkage", resourceId: nearAccount },
+            });
+          }
+
+          entry.discourseUsername = linkage.discourseUsername;
+
+          const revoked = await revokeQuietly(linkage.userApiKey, "unlink");
+
+          linkageStore.delete(nearAccount);
+
+          return {
+            success: true,
+            nearAccount,
+            discourseUsername: linkage.discourseUsername,
+            revoked,
+            message: `Successfully unlinked ${nearAccount} from ${linkage.discourseUsername}`,
+          };
+        })
+      ),
+
+      createPost: builder.createPost.handler(({ input, errors }) =>
+        audited("create-post", async (entry) => {
+          const nearAccount = await runEffect(
+            nearService.verifySignature(
+              input.authToken,
+              300000,
+              actionMessage("create-post", {
+                title: input.title,
+                raw: input.raw,
+                category: input.category,
+              })
+            ),
+            errors
+          );
+          Object.assign(entry, { actor: nearAccount, nearAccount });
+
+          const linkage = requireLinkage(
+            nearAccount,
+            "create-post",
+            ["write"],
+            errors
+          );
+          auditLinkage(entry, linkage);
+          rejectDuplicate(nearAccount, input.raw, errors);
+
+          if (input.checkSimilarTopics) {
+            const similar = await runEffect(
+              discourseService.findSimilarTopics({
+                title: input.title,
+                raw: input.raw,
+                auth: actAs(linkage),
+              }),
+              errors
+            );
+            if (similar.length > 0) {
+              throw errors.BAD_REQUEST({
+                message: `Similar topics already exist: ${similar
+                  .map(
+                    (topic) =>
+                      `"${topic.title}" (${config.variables.discourseBaseUrl}/t/${topic.slug}/${topic.id})`
+                  )
+                  .join(", ")}`,
+                data: { invalidFields: ["title"] },
+              });
+            }
+          }
+
+          enforceRateLimits(linkage, errors);
+
+          let category: number | undefined;
+          if (input.category !== undefined) {
+            const categoryId = await runEffect(
+              discourseService.resolveCategory(input.category, actAs(linkage)),
+              errors
+            );
+            if (categoryId === null) {
+              throw errors.BAD_REQUEST({
+                message: `Unknown or read-only category: ${input.category}`,
+                data: { invalidFields: ["category"] },
+              });
+            }
+            category = categoryId;
+          }
+
+          const postData = await runEffect(
+            discourseService.createPost({
+              title: input.title,
+              raw: input.raw,
+              category,
+              auth: actAs(linkage),
+            }),
+            errors
+          );
+          Object.assign(entry, {
+            postId: postData.id,
+            topicId: postData.topic_id,
+          });
+          duplicateDetector.remember(nearAccount, input.raw);
+          recordProvenance({
+            postId: postData.id,
+            nearAccount,
+            action: "create-post",
+            signedParams: { title: input.title, category: input.category },
+            authToken: input.authToken,
+          });
+
+          return {
+            success: true,
+            postUrl: `${config.variables.discourseBaseUrl}/t/${postData.topic_slug}/${postData.topic_id}`,
+            postId: postData.id,
+            topicId: postData.topic_id,
+          };
+        })
+      ),
+
+      createReply: builder.createReply.handler(({ input, errors }) =>
+        audited("create-reply", async (entry) => {
+          const nearAccount = await runEffect(
+            nearService.verifySignature(
+              input.authToken,
+              300000,
+              actionMessage("create-reply", {
+                topicId: input.topicId,
+                raw: input.raw,
+                replyToPostNumber: input.replyToPostNumber,
+              })
+            ),
+            errors
+          );
+          Object.assign(entry, { actor: nearAccount, nearAccount });
+
+          const linkage = requireLinkage(
+            nearAccount,
+            "create-reply",
+            ["write"],
+            errors
+          );
+          auditLinkage(entry, linkage);
+          rejectDuplicate(nearAccount, input.raw, errors);
+          enforceRateLimits(linkage, errors);
+
+          const postData = await runEffect(
+            discourseService.createReply({
+              topicId: input.topicId,
+              raw: input.raw,
+              replyToPostNumber: input.replyToPostNumber,
+              auth: actAs(linkage),
+            }),
+            errors
+          );
+          Object.assign(entry, {
+            postId: postData.id,
+            topicId: postData.topic_id,
+          });
+          duplicateDetector.remember(nearAccount, input.raw);
+          recordProvenance({
+            postId: postData.id,
+            nearAccount,
+            action: "create-reply",
+            signedParams: {
+              topicId: input.topicId,
+              replyToPostNumber: input.replyToPostNumber,
+            },
+            authToken: input.authToken,
+          });
+
+          return {
+            success: true,
+            postUrl: `${config.variables.discourseBaseUrl}/t/${postData.topic_slug}/${postData.topic_id}/${postData.post_number}`,
+            postId: postData.id,
+            topicId: postData.topic_id,
+          };
+        })
+      ),
+
+      editPost: builder.editPost.handler(({ input, errors }) =>
+        audited("edit-post", async (entry) => {
+          const nearAccount = await runEffect(
+            nearService.verifySignature(
+              input.authToken,
+              300000,
+              actionMessage("edit-post", {
+                postId: input.postId,
+                raw: input.raw,
+                editReason: input.editReason,
+              })
+            ),
+            errors
+          );
+          Object.assign(entry, { actor: nearAccount, nearAccount });
+
+          const linkage = requireLinkage(
+            nearAccount,
+            "edit-post",
+            ["write"],
+            errors
+          );
+          auditLinkage(entry, linkage);
+          enforceRateLimits(linkage, errors);
+
+          const post = await runEffect(
+            discourseService.getPost(input.postId, actAs(linkage)),
+            errors
+          );
+          if (!isPostAuthor(post, linkage.discourseUsername)) {
+            throw errors.FORBIDDEN({
+              message: "Post was not authored by the linked Discourse account",
+              data: {
+                requiredPermissions: ["post-author"],
+                action: "edit-post",
+              },
+            });
+          }
+
+          const postData = await runEffect(
+            discourseService.editPost({
+              postId: input.postId,
+              raw: input.raw,
+              editReason: input.editReason,
+              auth: actAs(linkage),
+            }),
+            errors
+          );
+          Object.assign(entry, {
+            postId: postData.id,
+            topicId: postData.topic_id,
+          });
+          recordProvenance({
+            postId: postData.id,
+            nearAccount,
+            action: "edit-post",
+            signedParams: {
+              postId: input.postId,
+              editReason: input.editReason,
+            },
+            authToken: input.authToken,
           });
+
+          return {
+            success: true,
+            postUrl: `${config.variables.discourseBaseUrl}/t/${postData.topic_slug}/${postData.topic_id}/${postData.post_number}`,
+            postId: postData.id,
+            topicId: postData.topic_id,
+          };
+        })
+      ),
+
+      deletePost: builder.deletePost.handler(({ input, errors }) =>
+        audited("delete-post", async (entry) => {
+          const nearAccount = await runEffect(
+            nearService.verifySignature(
+              input.authToken,
+              300000,
+              actionMessage("delete-post", { postId: input.postId })
+            ),
+            errors
+          );
+          Object.assign(entry, {
+            actor: nearAccount,
+            nearAccount,
+            postId: input.postId,
+          });
+
+          const linkage = requireLinkage(
+            nearAccount,
+            "delete-post",
+            ["write"],
+            errors
+          );
+          auditLinkage(entry, linkage);
+          enforceRateLimits(linkage, errors);
+
+          const post = await runEffect(
+            discourseService.getPost(input.postId, actAs(linkage)),
+            errors
+          );
+          entry.topicId = post.topicId;
+          if (!isPostAuthor(post, linkage.discourseUsername)) {
+            throw errors.FORBIDDEN({
+              message: "Post was not authored by the linked Discourse account",
+              data: {
+                requiredPermissions: ["post-author"],
+                action: "delete-post",
+              },
+            });
+          }
+
+          await runEffect(
+            discourseService.deletePost({
+              postId: input.postId,
+              auth: actAs(linkage),
+            }),
+            errors
+          );
+
+          return { success: true, postId: input.postId };
+        })
+      ),
+
+      sendPrivateMessage: builder.sendPrivateMessage.handler(
+        ({ input, errors }) =>
+          audited("send-private-message", async (entry) => {
+            const nearAccount = await runEffect(
+              nearService.verifySignature(
+                input.authToken,
+                300000,
+                actionMessage("send-private-message", {
+                  title: input.title,
+                  raw: input.raw,
+                  usernames: input.usernames,
+                  nearAccounts: input.nearAccounts,
+                })
+              ),
+              errors
+            );
+            Object.assign(entry, { actor: nearAccount, nearAccount });
+
+            const linkage = requireLinkage(
+              nearAccount,
+              "send-private-message",
+              ["write"],
+              errors
+            );
+            auditLinkage(entry, linkage);
+
+            // NEAR recipients are addressed through their linked usernames
+            const resolved = input.nearAccounts.map(
+              (account) => [account, linkageStore.get(account)] as const
+            );
+            const unlinked = resolved
+              .filter(([, recipient]) => !recipient)
+              .map(([account]) => account);
+            if (unlinked.length > 0) {
+              throw errors.BAD_REQUEST({
+                message: `No linked Discourse account for: ${unlinked.join(
+                  ", "
+                )}`,
+                data: { invalidFields: ["nearAccounts"] },
+              });
+            }
+
+            const recipients = [
+              ...new Set([
+                ...input.usernames,
+                ...resolved.flatMap(([, recipient]) =>
+                  recipient ? [recipient.discourseUsername] : []
+                ),
+              ]),
+            ];
+
+            rejectDuplicate(nearAccount, input.raw, errors);
+            enforceRateLimits(linkage, errors);
+
+            const messageData = await runEffect(
+              discourseService.sendPrivateMessage({
+                title: input.title,
+                raw: input.raw,
+                recipients,
+                auth: actAs(linkage),
+              }),
+              errors
+            );
+            duplicateDetector.remember(nearAccount, input.raw);
+            Object.assign(entry, {
+              postId: messageData.id,
+              topicId: messageData.topic_id,
+            });
+
+            return {
+              success: true,
+              postUrl: `${config.variables.discourseBaseUrl}/t/${messageData.topic_slug}/${messageData.topic_id}`,
+              postId: messageData.id,
+              topicId: messageData.topic_id,
+            };
+          })
+      ),
+
+      listPrivateMessages: builder.listPrivateMessages.handler(
+        async ({ input, errors }) => {
+          const nearAccount = await runEffect(
+            nearService.verifySignature(
+              input.authToken,
+              300000,
+              actionMessage("list-private-messages", {
+                folder: input.folder,
+                page: input.page,
+              })
+            ),
+            errors
+          );
+
+          const linkage = requireLinkage(
+            nearAccount,
+            "list-private-messages",
+            ["read"],
+            errors
+          );
+
+          return await runEffect(
+            discourseService.listPrivateMessages({
+              folder: input.folder,
+              page: input.page,
+              auth: actAs(linkage),
+            }),
+            errors
+          );
         }
+      ),
 
-        if (!nonceManager.verify(input.nonce, nonceData.clientId)) {
-          throw errors.BAD_REQUEST({
-            message: "Invalid or expired nonce",
-            data: {},
+      likePost: builder.likePost.handler(({ input, errors }) =>
+        audited("like-post", async (entry) => {
+          const nearAccount = await runEffect(
+            nearService.verifySignature(
+              input.authToken,
+              300000,
+              actionMessage("like-post", { postId: input.postId })
+            ),
+            errors
+          );
+          Object.assign(entry, {
+            actor: nearAccount,
+            nearAccount,
+            postId: input.postId,
           });
+
+          const linkage = requireLinkage(
+            nearAccount,
+            "like-post",
+            ["write"],
+            errors
+          );
+          auditLinkage(entry, linkage);
+          enforceRateLimits(linkage, errors);
+
+          return await runEffect(
+            discourseService.likePost({
+              postId: input.postId,
+              auth: actAs(linkage),
+            }),
+            errors
+          );
+        })
+      ),
+
+      unlikePost: builder.unlikePost.handler(({ input, errors }) =>
+        audited("unlike-post", async (entry) => {
+          const nearAccount = await runEffect(
+            nearService.verifySignature(
+              input.authToken,
+              300000,
+              actionMessage("unlike-post", { postId: input.postId })
+            ),
+            errors
+          );
+          Object.assign(entry, {
+            actor: nearAccount,
+            nearAccount,
+            postId: input.postId,
+          });
+
+          const linkage = requireLinkage(
+            nearAccount,
+            "unlike-post",
+            ["write"],
+            errors
+          );
+          auditLinkage(entry, linkage);
+          enforceRateLimits(linkage, errors);
+
+          return await runEffect(
+            discourseService.unlikePost({
+              postId: input.postId,
+              auth: actAs(linkage),
+            }),
+            errors
+          );
+        })
+      ),
+
+      togglePostReaction: builder.togglePostReaction.handler(
+        ({ input, errors }) =>
+          audited("toggle-reaction", async (entry) => {
+            const nearAccount = await runEffect(
+              nearService.verifySignature(
+                input.authToken,
+                300000,
+                actionMessage("toggle-reaction", {
+                  postId: input.postId,
+                  reaction: input.reaction,
+                })
+              ),
+              errors
+            );
+            Object.assign(entry, {
+              actor: nearAccount,
+              nearAccount,
+              postId: input.postId,
+            });
+
+            const linkage = requireLinkage(
+              nearAccount,
+              "toggle-reaction",
+              ["write"],
+              errors
+            );
+            auditLinkage(entry, linkage);
+            enforceRateLimits(linkage, errors);
+
+            return await runEffect(
+              discourseService.togglePostReaction({
+                postId: input.postId,
+                reaction: input.reaction,
+                auth: actAs(linkage),
+              }),
+              errors
+            );
+          })
+      ),
+
+      getNotifications: builder.getNotifications.handler(
+        async ({ input, errors }) => {
+          const nearAccount = await runEffect(
+            nearService.verifySignature(
+              input.authToken,
+              300000,
+              actionMessage("get-notifications", {
+                unreadOnly: input.unreadOnly,
+                page: input.page,
+              })
+            ),
+            errors
+          );
+
+          // Listing is a GET, so a read-only key covers it too
+          const granted =
+            linkageStore.get(nearAccount)?.scopes ?? DEFAULT_USER_API_SCOPES;
+          const linkage = requireLinkage(
+            nearAccount,
+            "get-notifications",
+            missingScopes(granted, ["read"]).length === 0
+              ? ["read"]
+              : ["notifications"],
+            errors
+          );
+
+          return await runEffect(
+            discourseService.getNotifications({
+              unreadOnly: input.unreadOnly,
+              page: input.page,
+              auth: actAs(linkage),
+            }),
+            errors
+          );
         }
+      ),
 
-        const userApiKey = await Effect.runPromise(
-          cryptoService.decryptPayload(input.payload, nonceData.privateKey)
-        );
+      markNotificationsRead: builder.markNotificationsRead.handler(
+        async ({ input, errors }) => {
+          const nearAccount = await runEffect(
+            nearService.verifySignature(
+              input.authToken,
+              300000,
+              actionMessage("mark-notifications-read", {
+                notificationId: input.notificationId,
+              })
+            ),
+            errors
+          );
 
-        const discourseUser = await Effect.runPromise(
-          discourseService.getCurrentUser(userApiKey)
-        );
+          const linkage = requireLinkage(
+            nearAccount,
+            "mark-notifications-read",
+            ["notifications"],
+            errors
+          );
 
-        const nearAccount = await Effect.runPromise(
-          nearService.verifySignature(input.authToken)
-        );
+          await runEffect(
+            discourseService.markNotificationsRead({
+              notificationId: input.notificationId,
+              auth: actAs(linkage),
+            }),
+            errors
+          );
 
-        linkageStore.set(nearAccount, {
-          nearAccount,
-          discourseUsername: discourseUser.username,
-          discourseUserId: discourseUser.id,
-          userApiKey,
-          verifiedAt: new Date().toISOString(),
-        });
+          return { success: true };
+        }
+      ),
+
+      listCategories: builder.listCategories.handler(async ({ errors }) => {
+        const categories = await runEffect(
+          discourseService.getCategories(),
+          errors
+        );
+        return { categories };
+      }),
 
-        nonceManager.consume(input.nonce);
+      getTopic: builder.getTopic.handler(async ({ input, errors }) => {
+        return await runEffect(discourseService.getTopic(input), errors);
+      }),
 
-        return {
-          success: true,
-          nearAccount,
-          discourseUsername: discourseUser.username,
-          message: `Successfully linked ${nearAccount} to ${discourseUser.username}`,
-        };
+      getPost: builder.getPost.handler(async ({ input, errors }) => {
+        return await runEffect(discourseService.getPost(input.postId), errors);
       }),
 
-      createPost: builder.createPost.handler(async ({ input, errors }) => {
-        const nearAccount = await Effect.runPromise(
-          nearService.verifySignature(input.authToken, 300000)
+      verifyPostProvenance: builder.verifyPostProvenance.handler(
+        async ({ input, errors }) => {
+          if (!provenanceStore.has(input.postId)) return null;
+
+          const post = await runEffect(
+            discourseService.getPost(input.postId),
+            errors
+          );
+          return provenanceStore.verify(input.postId, post.raw);
+        }
+      ),
+
+      listLatestTopics: builder.listLatestTopics.handler(
+        async ({ input, errors }) => {
+          return await runEffect(
+            discourseService.listLatestTopics(input),
+            errors
+          );
+        }
+      ),
+
+      listCategoryTopics: builder.listCategoryTopics.handler(
+        async ({ input, errors }) => {
+          return await runEffect(
+            discourseService.listCategoryTopics(input),
+            errors
+          );
+        }
+      ),
+
+      search: builder.search.handler(async ({ input, errors }) => {
+        const { nearAccount, ...filters } = input;
+
+        let username: string | undefined;
+        if (nearAccount !== undefined) {
+          const linkage = linkageStore.get(nearAccount);
+          if (!linkage) {
+            throw errors.NOT_FOUND({
+              message: "No linked Discourse account found",
+              data: { resource: "linkage", resourceId: nearAccount },
+            });
+          }
+          username = linkage.discourseUsername;
+        }
+
+        return await runEffect(
+          discourseService.search({ ...filters, username }),
+          errors
         );
+      }),
 
-        const linkage = linkageStore.get(nearAccount);
-        if (!linkage) {
-          throw errors.FORBIDDEN({
-            message:
-              "No linked Discourse account. Please link your account first.",
-            data: {
-              requiredPermissions: ["linked-account"],
-              action: "create-post",
-            },
-          });
+      findSimilarTopics: builder.findSimilarTopics.handler(
+        async ({ input, errors }) => {
+          const topics = await runEffect(
+            discourseService.findSimilarTopics(input),
+            errors
+          );
+          return { topics };
         }
+      ),
 
-        const postData = await Effect.runPromise(
-          discourseService.createPost({
-            title: input.title,
-            raw: input.raw,
-            category: input.category,
-            username: linkage.discourseUsername,
-          })
+      watchTopic: builder.watchTopic.handler(async function* ({
+        input,
+        errors,
+        signal,
+      }) {
+        const poll = () =>
+          runEffect(
+            discourseService.getLatestTopicPosts(input.topicId),
+            errors
+          );
+
+        yield* watch(
+          `topic:${input.topicId}`,
+          {
+            poll,
+            catchUp: poll,
+            since: input.since ? Date.parse(input.since) : Date.now(),
+            signal,
+          },
+          errors
         );
+      }),
 
-        return {
-          success: true,
-          postUrl: `${config.variables.discourseBaseUrl}/t/${postData.topic_slug}/${postData.topic_id}`,
-          postId: postData.id,
-          topicId: postData.topic_id,
-        };
+      watchCategory: builder.watchCategory.handler(async function* ({
+        input,
+        errors,
+        signal,
+      }) {
+        const since = input.since ? Date.parse(input.since) : Date.now();
+        const poller = () =>
+          topicActivityPoller(
+            async () => {
+              const { topics } = await runEffect(
+                discourseService.listCategoryTopics({
+                  categoryId: input.categoryId,
+                  page: 0,
+                }),
+                errors
+              );
+              return topics;
+            },
+            (topicId) =>
+              runEffect(discourseService.getLatestTopicPosts(topicId), errors),
+            since
+          );
+
+        yield* watch(
+          `category:${input.categoryId}`,
+          { poll: poller(), catchUp: () => poller()(), since, signal },
+          errors
+        );
       }),
 
       getLinkage: builder.getLinkage.handler(async ({ input }) => {
@@ -193,18 +1372,314 @@ export default createPlugin({
           return null;
         }
 
+        return describeLinkage(linkage);
+      }),
+
+      getLinkageByDiscourseUser: builder.getLinkageByDiscourseUser.handler(
+        async ({ input }) => {
+          const linkages = linkageStore.findByDiscourseUser(input);
+
+          return { linkages: linkages.map(describeLinkage) };
+        }
+      ),
+
+      adminListLinkages: builder.adminListLinkages.handler(
+        async ({ input, errors }) => {
+          await requireAdmin(input, "admin-list-linkages", errors);
+
+          const username = input.discourseUsername?.toLowerCase();
+          const matching = linkageStore
+            .getAll()
+            .filter(
+              (linkage) =>
+                (!input.nearAccount ||
+                  linkage.nearAccount.includes(input.nearAccount)) &&
+                (!username ||
+                  linkage.discourseUsername.toLowerCase().includes(username))
+            )
+            .sort((a, b) => a.nearAccount.localeCompare(b.nearAccount));
+
+          const start = input.page * input.pageSize;
+          const end = start + input.pageSize;
+
+          return {
+            linkages: matching.slice(start, end).map((linkage) => ({
+              ...describeLinkage(linkage),
+              discourseUserId: linkage.discourseUserId,
+            })),
+            total: matching.length,
+            nextPage: end < matching.length ? input.page + 1 : null,
+          };
+        }
+      ),
+
+      adminUnlink: builder.adminUnlink.handler(({ input, errors }) =>
+        audited("admin-unlink", async (entry) => {
+          entry.actor = await requireAdmin(input, "admin-unlink", errors);
+          entry.nearAccount = input.nearAccount;
+
+          const linkage = linkageStore.get(input.nearAccount);
+          if (!linkage) {
+            throw errors.NOT_FOUND({
+              message: "No linked Discourse account found",
+              data: { resource: "linkage", resourceId: input.nearAccount },
+            });
+          }
+          entry.discourseUsername = linkage.discourseUsername;
+
+          const revoked = input.revoke
+            ? await revokeQuietly(linkage.userApiKey, "adminUnlink")
+            : false;
+
+          linkageStore.delete(input.nearAccount);
+
+          return {
+            success: true,
+            nearAccount: input.nearAccount,
+            discourseUsername: linkage.discourseUsername,
+            revoked,
+            message: `Unlinked ${input.nearAccount} from ${linkage.discourseUsername}`,
+          };
+        })
+      ),
+
+      adminExportLinkages: builder.adminExportLinkages.handler(
+        ({ input, errors }) =>
+          audited("admin-export-linkages", async (entry) => {
+            entry.actor = await requireAdmin(
+              input,
+              "admin-export-linkages",
+              errors
+            );
+
+            const linkages = linkageStore.getAll();
+            const jsonl = linkages
+              .map((linkage) =>
+                JSON.stringify({
+                  ...describeLinkage(linkage),
+                  discourseUserId: linkage.discourseUserId,
+                  ...(input.includeApiKeys
+                    ? { userApiKey: linkage.userApiKey }
+                    : {}),
+                })
+              )
+              .join("\n");
+
+            return { jsonl, count: linkages.length };
+          })
+      ),
+
+      adminImportLinkages: builder.adminImportLinkages.handler(
+        ({ input, errors }) =>
+          audited("admin-import-linkages", async (entry) => {
+            entry.actor = await requireAdmin(
+              input,
+              "admin-import-linkages",
+              errors
+            );
+
+            const skipped: Array<{ line: number; reason: string }> = [];
+            let imported = 0;
+
+            const lines = input.jsonl.split("\n");
+            for (const [index, text] of lines.entries()) {
+              const line = index + 1;
+              if (text.trim().length === 0) continue;
+
+              let parsed;
+              try {
+                parsed = LinkageExportSchema.safeParse(JSON.parse(text));
+              } catch {
+                skipped.push({ line, reason: "Invalid JSON" });
+                continue;
+              }
+              if (!parsed.success) {
+                skipped.push({
+                  line,
+                  reason: parsed.error.issues
+                    .map((issue) => `${issue.path.join(".")}: ${issue.message}`)
+                    .join("; "),
+                });
+                continue;
+              }
+
+              const { userApiKey, ...linkage } = parsed.data;
+              if (!userApiKey) {
+                skipped.push({
+                  line,
+                  reason: "Missing userApiKey; export with includeApiKeys",
+                });
+                continue;
+              }
+              if (!input.overwrite && linkageStore.get(linkage.nearAccount)) {
+                skipped.push({ line, reason: "Linkage already exists" });
+                continue;
+              }
+
+              const other = linkageStore
+                .findByDiscourseUser({ userId: linkage.discourseUserId })
+                .find(
+                  (existing) => existing.nearAccount !== linkage.nearAccount
+                );
+              if (config.variables.linkagePolicy === "one-to-one" && other) {
+                skipped.push({
+                  line,
+                  reason: `Discourse user is already linked to ${other.nearAccount}`,
+                });
+                continue;
+              }
+
+              linkageStore.set(linkage.nearAccount, { ...linkage, userApiKey });
+              imported++;
+            }
+
+            return { imported, skipped };
+          })
+      ),
+
+      getAuditLog: builder.getAuditLog.handler(async ({ input, errors }) => {
+        await requireAdmin(input, "get-audit-log", errors);
+
+        const entries = auditLog.query({
+          nearAccount: input.nearAccount,
+          action: input.action,
+          from: input.from,
+          to: input.to,
+        });
+
+        const start = input.page * input.pageSize;
+        const end = start + input.pageSize;
+
         return {
-          nearAccount: linkage.nearAccount,
-          discourseUsername: linkage.discourseUsername,
-          verifiedAt: linkage.verifiedAt,
+          entries: entries.slice(start, end),
+          total: entries.length,
+          nextPage: end < entries.length ? input.page + 1 : null,
         };
       }),
 
+      forwardWebhook: builder.forwardWebhook.handler(
+        async ({ input, errors }) => {
+          const secret = config.secrets.webhookSecret;
+          if (!secret) {
+            throw errors.FORBIDDEN({
+              message: "Webhooks are not enabled; configure webhookSecret",
+              data: { action: "forward-webhook" },
+            });
+          }
+
+          if (!verifyWebhookSignature(input.body, input.signature, secret)) {
+            throw errors.UNAUTHORIZED({
+              message: "Invalid webhook signature",
+              data: { apiKeyProvided: true, authType: "token" },
+            });
+          }
+
+          const event = parseWebhookEvent(
+            input.event,
+            input.eventId,
+            input.body
+          );
+          if (!event) {
+            throw errors.BAD_REQUEST({
+              message: "Webhook body must be a JSON object",
+              data: { invalidFields: ["body"] },
+            });
+          }
+
+          await webhookEvents.publish("event", event);
+
+          return { received: true as const, type: event.type };
+        }
+      ),
+
+      streamWebhookEvents: builder.streamWebhookEvents.handler(
+        async function* ({ input, errors, signal }) {
+          await requireAdmin(input, "stream-webhook-events", errors);
+
+          for await (const event of webhookEvents.subscribe("event", {
+            signal,
+          })) {
+            if (!input.types || input.types.includes(event.type)) {
+              yield event;
+            }
+          }
+        }
+      ),
+
       ping: builder.ping.handler(async () => {
+        const discourseConnected = await Effect.runPromise(
+          discourseService
+            .checkConnectivity(config.variables.healthCheckTimeoutMs)
+            .pipe(
+              Effect.as(true),
+              Effect.orElseSucceed(() => false)
+            )
+        );
+
         return {
           status: "ok" as const,
           timestamp: new Date().toISOString(),
-          discourseConnected: true,
+          discourseConnected,
+        };
+      }),
+
+      health: builder.health.handler(async () => {
+        const timeoutMs = config.variables.healthCheckTimeoutMs;
+
+        const [connectivity, systemApiKeyValid, version] =
+          await Effect.runPromise(
+            Effect.all(
+              [
+                Effect.either(discourseService.checkConnectivity(timeoutMs)),
+                discourseService
+                  .validateSystemApiKey(timeoutMs)
+                  .pipe(Effect.orElseSucceed(() => null)),
+                discourseService
+                  .getVersion(timeoutMs)
+                  .pipe(Effect.orElseSucceed(() => null)),
+              ],
+              { concurrency: "unbounded" }
+            )
+          );
+
+        const storage = (() => {
+          try {
+            return {
+              healthy: true,
+              nonces: nonceManager.size(),
+              linkages: linkageStore.size(),
+            };
+          } catch (error) {
+            return {
+              healthy: false,
+              nonces: null,
+              linkages: null,
+              error: error instanceof Error ? error.message : String(error),
+            };
+          }
+        })();
+
+        const connected = connectivity._tag === "Right";
+        const status = !connected
+          ? ("down" as const)
+          : systemApiKeyValid && storage.healthy
+          ? ("ok" as const)
+          : ("degraded" as const);
+
+        return {
+          status,
+          timestamp: new Date().toISOString(),
+          discourse: {
+            connected,
+            latencyMs: connected ? connectivity.right : null,
+            version,
+            systemApiKeyValid,
+            ...(connected ? {} : { error: connectivity.left.message }),
+          },
+          storage: {
+            backend: config.variables.storageBackend,
+            ...storage,
+          },
         };
       }),
     };
@@ -0,0 +1,94 @@
+import { createHash } from "crypto";
+
+export type RateLimitDecision =
+  | { allowed: true; remaining: number }
+  | { allowed: false; retryAfterMs: number; resetAt: number };
+
+/**
+ * RateLimiter - Sliding-window request counter keyed by caller
+ *
+ * Allows at most `limit` hits per key within any `windowMs` period. A limit
+ * of 0 disables the limiter. State is process-local.
+ */
+export class RateLimiter {
+  private hits = new Map<string, number[]>();
+
+  constructor(
+    private readonly limit: number,
+    private readonly windowMs: number
+  ) {}
+
+  check(key: string, now = Date.now()): RateLimitDecision {
+    if (this.limit <= 0) return { allowed: true, remaining: Infinity };
+
+    const recent = this.recent(key, now);
+    if (recent.length < this.limit) {
+      return { allowed: true, remaining: this.limit - recent.length };
+    }
+
+    // The window frees up when the oldest counted hit expires
+    const resetAt = recent[recent.length - this.limit] + this.windowMs;
+    return { allowed: false, retryAfterMs: resetAt - now, resetAt };
+  }
+
+  hit(key: string, now = Date.now()): void {
+    if (this.limit <= 0) return;
+    this.hits.set(key, [...this.recent(key, now), now]);
+  }
+
+  cleanup(now = Date.now()): void {
+    for (const key of this.hits.keys()) {
+      const recent = this.recent(key, now);
+      if (recent.length === 0) {
+        this.hits.delete(key);
+      } else {
+        this.hits.set(key, recent);
+      }
+    }
+  }
+
+  private recent(key: string, now: number): number[] {
+    return (this.hits.get(key) ?? []).filter(
+      (timestamp) => now - timestamp < this.windowMs
+    );
+  }
+}
+
+/**
+ * DuplicateContentDetector - Remembers recently posted bodies per account
+ *
+ * Bodies are compared after trimming and collapsing whitespace, and only
+ * their digests are kept. A window of 0 disables the detector.
+ */
+export class DuplicateContentDetector {
+  private seen = new Map<string, number>();
+
+  constructor(private readonly windowMs: number) {}
+
+  isDuplicate(account: string, raw: string, now = Date.now()): boolean {
+    if (this.windowMs <= 0) return false;
+
+    const seenAt = this.seen.get(this.key(account, raw));
+    return seenAt !== undefined && now - seenAt < this.windowMs;
+  }
+
+  remember(account: string, raw: string, now = Date.now()): void {
+    if (this.windowMs <= 0) return;
+    this.seen.set(this.key(account, raw), now);
+  }
+
+  cleanup(now = Date.now()): void {
+    for (const [key, seenAt] of this.seen) {
+      if (now - seenAt >= this.windowMs) {
+        this.seen.delete(key);
+      }
+    }
+  }
+
+  private key(account: string, raw: string): string {
+    const normalized = raw.trim().replace(/\s+/g, " ");
+    return `${account}:${createHash("sha256")
+      .update(normalized)
+      .digest("hex")}`;
+  }
+}
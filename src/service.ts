@@ -1,14 +1,44 @@
 import { Effect } from "every-plugin/effect";
-import { randomBytes, generateKeyPairSync } from "crypto";
-import { exec } from "child_process";
-import { promisify } from "util";
-import { writeFileSync, unlinkSync } from "fs";
-import { join } from "path";
-import { verify } from "near-sign-verify";
-import type { z } from "every-plugin/zod";
+import {
+  createHash,
+  randomBytes,
+  generateKeyPairSync,
+  createPrivateKey,
+  privateDecrypt,
+  constants,
+} from "crypto";
+import { parseAuthToken, verify } from "near-sign-verify";
+import { z } from "every-plugin/zod";
+import { MemoryStorage, type StorageBackend } from "./storage";
+import {
+  DecryptionError,
+  DiscourseNetworkError,
+  DiscourseResponseError,
+  NearVerificationError,
+  discourseApiError,
+  DiscourseApiError,
+} from "./errors";
+import {
+  isEncryptedValue,
+  type EncryptedValue,
+  type EnvelopeCipher,
+} from "./encryption";
 
 // Import types from contract
-import type { LinkageSchema } from "./contract";
+import type {
+  LinkageSchema,
+  PostSchema,
+  TopicSchema,
+  TopicListSchema,
+  TopicDetailSchema,
+  CategorySchema,
+  NotificationListSchema,
+  PostReactionsSchema,
+  SearchResultSchema,
+  SimilarTopicSchema,
+  UserApiScopeSchema,
+  ProvenanceSchema,
+} from "./contract";
 
 // Infer types from schemas
 type Linkage = z.infer<typeof LinkageSchema> & {
@@ -16,23 +46,696 @@ type Linkage = z.infer<typeof LinkageSchema> & {
   userApiKey: string;
 };
 
-const execAsync = promisify(exec);
+type Post = z.infer<typeof PostSchema>;
+type Topic = z.infer<typeof TopicSchema>;
+type TopicList = z.infer<typeof TopicListSchema>;
+type TopicDetail = z.infer<typeof TopicDetailSchema>;
+type Category = z.infer<typeof CategorySchema>;
+type NotificationList = z.infer<typeof NotificationListSchema>;
+type PostReactions = z.infer<typeof PostReactionsSchema>;
+type SearchResult = z.infer<typeof SearchResultSchema>;
+type SimilarTopic = z.infer<typeof SimilarTopicSchema>;
+export type UserApiScope = z.infer<typeof UserApiScopeSchema>;
+type Provenance = z.infer<typeof ProvenanceSchema>;
+
+// Provenance as persisted: the signed parameters other than the post body
+type ProvenanceRecord = Omit<Provenance, "contentMatches"> & {
+  params: Record<string, unknown>;
+};
+
+// Linkage as persisted; the user API key is an envelope when encryption is on
+type StoredLinkage = Omit<Linkage, "userApiKey"> & {
+  userApiKey: string | EncryptedValue;
+};
+
+type NonceData = {
+  clientId: string;
+  privateKey: string;
+  scopes: UserApiScope[];
+  timestamp: number;
+};
+
+// Nonce as persisted; the private key is an envelope when encryption is on
+type StoredNonceData = Omit<NonceData, "privateKey"> & {
+  privateKey: string | EncryptedValue;
+};
+
+// Scopes assumed for linkages created before scopes were recorded
+export const DEFAULT_USER_API_SCOPES: UserApiScope[] = ["read", "write"];
+
+// Scopes another scope covers. Discourse's write scope allows every route.
+// Read allows every GET route, which includes listing notifications but not
+// marking them read, so it cannot imply the notifications scope; see
+// `getNotifications` for that case.
+const IMPLIED_SCOPES: Partial<Record<UserApiScope, UserApiScope[]>> = {
+  write: ["read", "notifications", "session_info"],
+  read: ["session_info"],
+};
+
+/**
+ * Returns the required scopes that the granted scopes do not cover
+ */
+export function missingScopes(
+  granted: UserApiScope[],
+  required: UserApiScope[]
+): UserApiScope[] {
+  const effective = new Set(
+    granted.flatMap((scope) => [scope, ...(IMPLIED_SCOPES[scope] ?? [])])
+  );
+  return required.filter((scope) => !effective.has(scope));
+}
+
+// Discourse serves topic posts in pages of this size
+const POSTS_PER_PAGE = 20;
+const CATEGORY_CACHE_TTL = 5 * 60 * 1000; // 5 minutes
+
+// Discourse response payloads, checked before they are mapped. Fields the
+// mappers fall back on defaults for may be missing.
+export const PostPayloadSchema = z.object({
+  id: z.number(),
+  topic_id: z.number(),
+  post_number: z.number(),
+  username: z.string(),
+  name: z.string().nullish(),
+  avatar_template: z.string().nullish(),
+  raw: z.string().optional(),
+  cooked: z.string(),
+  reply_to_post_number: z.number().nullish(),
+  reply_count: z.number().nullish(),
+  created_at: z.string(),
+  updated_at: z.string(),
+});
+
+export const TopicPayloadSchema = z.object({
+  id: z.number(),
+  title: z.string(),
+  slug: z.string(),
+  category_id: z.number().nullish(),
+  posts_count: z.number(),
+  views: z.number().nullish(),
+  like_count: z.number().nullish(),
+  pinned: z.boolean().nullish(),
+  closed: z.boolean().nullish(),
+  archived: z.boolean().nullish(),
+  created_at: z.string(),
+  last_posted_at: z.string().nullish(),
+});
+
+const PostStreamPayloadSchema = z.object({
+  post_stream: z
+    .object({
+      posts: z.array(PostPayloadSchema).optional(),
+      stream: z.array(z.number()).optional(),
+    })
+    .optional(),
+});
+
+const TopicDetailPayloadSchema = TopicPayloadSchema.extend({
+  ...PostStreamPayloadSchema.shape,
+  highest_post_number: z.number().optional(),
+});
+
+const TopicListPayloadSchema = z.object({
+  topic_list: z
+    .object({
+      topics: z.array(TopicPayloadSchema).optional(),
+      more_topics_url: z.string().nullish(),
+    })
+    .optional(),
+});
+
+const CategoryPayloadSchema = z.object({
+  id: z.number(),
+  name: z.string(),
+  slug: z.string(),
+  description_text: z.string().nullish(),
+  color: z.string(),
+  parent_category_id: z.number().nullish(),
+  topic_count: z.number().nullish(),
+  read_restricted: z.boolean().nullish(),
+  permission: z.number().nullish(),
+});
+
+const CategoryListPayloadSchema = z
+  .object({
+    category_list: z
+      .object({
+        categories: z
+          .array(
+            CategoryPayloadSchema.extend({
+              subcategory_list: z.array(CategoryPayloadSchema).nullish(),
+            })
+          )
+          .optional(),
+      })
+      .optional(),
+  })
+  .nullable();
+
+const SearchPayloadSchema = z.object({
+  posts: z
+    .array(
+      z.object({
+        id: z.number(),
+        topic_id: z.number(),
+        post_number: z.number(),
+        username: z.string(),
+        name: z.string().nullish(),
+        avatar_template: z.string().nullish(),
+        blurb: z.string().nullish(),
+        like_count: z.number().nullish(),
+        created_at: z.string(),
+      })
+    )
+    .optional(),
+  topics: z
+    .array(
+      TopicPayloadSchema.extend({
+        tags: z
+          .array(z.union([z.string(), z.object({ name: z.string() })]))
+          .nullish(),
+      })
+    )
+    .optional(),
+  grouped_search_result: z
+    .object({ more_full_page_results: z.boolean().nullish() })
+    .nullish(),
+});
+
+// A bare [] when the title is too short or the forum has too few topics
+const SimilarTopicsPayloadSchema = z.union([
+  z.object({
+    similar_topics: z
+      .array(
+        z.object({
+          topic_id: z.number().nullish(),
+          topic: TopicPayloadSchema.nullish(),
+          blurb: z.string().nullish(),
+        })
+      )
+      .optional(),
+    topics: z.array(TopicPayloadSchema).optional(),
+  }),
+  z.array(z.never()),
+]);
+
+// Post action and reaction endpoints answer with the post, or nothing
+const PostReactionsPayloadSchema = z
+  .object({
+    actions_summary: z
+      .array(
+        z.object({
+          id: z.number(),
+          count: z.number().nullish(),
+          acted: z.boolean().nullish(),
+        })
+      )
+      .optional(),
+    like_count: z.number().nullish(),
+    reactions: z
+      .array(z.object({ id: z.string(), count: z.number() }))
+      .optional(),
+    current_user_reaction: z.object({ id: z.string() }).nullish(),
+  })
+  .nullable();
+
+const NotificationListPayloadSchema = z.object({
+  notifications: z
+    .array(
+      z.object({
+        id: z.number(),
+        notification_type: z.number(),
+        read: z.boolean().nullish(),
+        high_priority: z.boolean().nullish(),
+        created_at: z.string(),
+        topic_id: z.number().nullish(),
+        post_number: z.number().nullish(),
+        slug: z.string().nullish(),
+        fancy_title: z.string().nullish(),
+        data: z
+          .object({
+            topic_title: z.string().nullish(),
+            display_username: z.string().nullish(),
+            original_username: z.string().nullish(),
+          })
+          .nullish(),
+      })
+    )
+    .optional(),
+  total_rows_notifications: z.number().nullish(),
+});
+
+const CreatedPostPayloadSchema = z.object({
+  id: z.number(),
+  topic_id: z.number(),
+  topic_slug: z.string(),
+  post_number: z.number(),
+});
+
+const SessionPayloadSchema = z
+  .object({
+    current_user: z
+      .object({
+        id: z.number(),
+        username: z.string(),
+        name: z.string().nullish(),
+      })
+      .nullish(),
+  })
+  .nullable();
+
+const AboutPayloadSchema = z
+  .object({ about: z.object({ version: z.string().nullish() }).nullish() })
+  .nullable();
+
+export const mapPost = (data: z.infer<typeof PostPayloadSchema>): Post => ({
+  id: data.id,
+  topicId: data.topic_id,
+  postNumber: data.post_number,
+  username: data.username,
+  name: data.name ?? null,
+  avatarTemplate: data.avatar_template ?? null,
+  raw: data.raw,
+  cooked: data.cooked,
+  replyToPostNumber: data.reply_to_post_number ?? null,
+  replyCount: data.reply_count ?? 0,
+  createdAt: data.created_at,
+  updatedAt: data.updated_at,
+});
+
+export const mapTopic = (data: z.infer<typeof TopicPayloadSchema>): Topic => ({
+  id: data.id,
+  title: data.title,
+  slug: data.slug,
+  categoryId: data.category_id ?? null,
+  postsCount: data.posts_count,
+  views: data.views ?? 0,
+  likeCount: data.like_count ?? 0,
+  pinned: Boolean(data.pinned),
+  closed: Boolean(data.closed),
+  archived: Boolean(data.archived),
+  createdAt: data.created_at,
+  lastPostedAt: data.last_posted_at ?? null,
+});
+
+const CATEGORY_PERMISSIONS = {
+  1: "full",
+  2: "create_post",
+  3: "readonly",
+} as const;
+
+const mapCategory = (
+  data: z.infer<typeof CategoryPayloadSchema>
+): Omit<Category, "subcategories"> => ({
+  id: data.id,
+  name: data.name,
+  slug: data.slug,
+  description: data.description_text ?? null,
+  color: data.color,
+  parentCategoryId: data.parent_category_id ?? null,
+  topicCount: data.topic_count ?? 0,
+  readRestricted: Boolean(data.read_restricted),
+  permission:
+    CATEGORY_PERMISSIONS[
+      data.permission as keyof typeof CATEGORY_PERMISSIONS
+    ] ?? null,
+});
+
+const mapTopicList = (
+  data: z.infer<typeof TopicListPayloadSchema>,
+  page: number
+): TopicList => ({
+  topics: (data.topic_list?.topics ?? []).map(mapTopic),
+  nextPage: data.topic_list?.more_topics_url ? page + 1 : null,
+});
+
+// Search results; tags are names, or objects on newer Discourse versions
+const mapSearchResult = (
+  data: z.infer<typeof SearchPayloadSchema>,
+  page: number
+): SearchResult => ({
+  posts: (data.posts ?? []).map((post) => ({
+    id: post.id,
+    topicId: post.topic_id,
+    postNumber: post.post_number,
+    username: post.username,
+    name: post.name ?? null,
+    avatarTemplate: post.avatar_template ?? null,
+    blurb: post.blurb ?? "",
+    likeCount: post.like_count ?? 0,
+    createdAt: post.created_at,
+  })),
+  topics: (data.topics ?? []).map((topic) => ({
+    ...mapTopic(topic),
+    tags: (topic.tags ?? []).map((tag) =>
+      typeof tag === "string" ? tag : tag.name
+    ),
+  })),
+  nextPage: data.grouped_search_result?.more_full_page_results
+    ? page + 1
+    : null,
+});
+
+// Similar topics come as excerpts with their topics listed alongside
+const mapSimilarTopics = (
+  data: z.infer<typeof SimilarTopicsPayloadSchema>
+): SimilarTopic[] => {
+  if (Array.isArray(data)) return [];
+
+  const topics = new Map((data.topics ?? []).map((topic) => [topic.id, topic]));
+
+  return (data.similar_topics ?? []).flatMap((similar) => {
+    const topic =
+      similar.topic ??
+      (similar.topic_id != null ? topics.get(similar.topic_id) : undefined);
+    return topic ? [{ ...mapTopic(topic), blurb: similar.blurb ?? "" }] : [];
+  });
+};
+
+// Similarity only needs the start of a draft; keeps the query string short
+const SIMILAR_TOPICS_RAW_LENGTH = 1000;
+
+// Discourse's post action type for likes
+const LIKE_ACTION_TYPE = 2;
+
+// Like and reaction state from a post returned by a post action endpoint
+const mapPostReactions = (
+  data: z.infer<typeof PostReactionsPayloadSchema>,
+  postId: number
+): PostReactions => {
+  const like = (data?.actions_summary ?? []).find(
+    (action) => action.id === LIKE_ACTION_TYPE
+  );
+
+  return {
+    postId,
+    likeCount: like?.count ?? data?.like_count ?? 0,
+    liked: Boolean(like?.acted),
+    reactions: (data?.reactions ?? []).map((reaction) => ({
+      id: reaction.id,
+      count: reaction.count,
+    })),
+    currentUserReaction: data?.current_user_reaction?.id ?? null,
+  };
+};
+
+// Discourse serves notifications in pages of this size
+const NOTIFICATIONS_PER_PAGE = 30;
+
+// Discourse's Notification.types, by numeric id
+const NOTIFICATION_TYPES: Record<number, string> = {
+  1: "mentioned",
+  2: "replied",
+  3: "quoted",
+  4: "edited",
+  5: "liked",
+  6: "private_message",
+  7: "invited_to_private_message",
+  8: "invitee_accepted",
+  9: "posted",
+  10: "moved_post",
+  11: "linked",
+  12: "granted_badge",
+  13: "invited_to_topic",
+  14: "custom",
+  15: "group_mentioned",
+  16: "group_message_summary",
+  17: "watching_first_post",
+  18: "topic_reminder",
+  19: "liked_consolidated",
+  20: "post_approved",
+  21: "code_review_commit_approved",
+  22: "membership_request_accepted",
+  23: "membership_request_consolidated",
+  24: "bookmark_reminder",
+  25: "reaction",
+};
+
+const mapNotificationList = (
+  data: z.infer<typeof NotificationListPayloadSchema>,
+  page: number
+): NotificationList => {
+  const notifications = (data.notifications ?? []).map((item) => ({
+    id: item.id,
+    type: NOTIFICATION_TYPES[item.notification_type] ?? "unknown",
+    notificationType: item.notification_type,
+    read: Boolean(item.read),
+    highPriority: Boolean(item.high_priority),
+    createdAt: item.created_at,
+    topicId: item.topic_id ?? null,
+    postNumber: item.post_number ?? null,
+    slug: item.slug ?? null,
+    title: item.fancy_title ?? item.data?.topic_title ?? null,
+    username:
+      item.data?.display_username ?? item.data?.original_username ?? null,
+  }));
+  const totalRows = data.total_rows_notifications ?? notifications.length;
+
+  return {
+    notifications,
+    totalRows,
+    nextPage:
+      page * NOTIFICATIONS_PER_PAGE + notifications.length < totalRows
+        ? page + 1
+        : null,
+  };
+};
+
+/**
+ * Credentials for acting on behalf of a linked user: either the User API key
+ * stored at link time, or the system API key impersonating the username.
+ */
+export type DiscourseAuth =
+  | { type: "user-api-key"; userApiKey: string; username: string }
+  | { type: "impersonate"; username: string };
+
+export type HttpOptions = {
+  // Per-attempt timeout
+  timeoutMs: number;
+  // Additional attempts after the first one
+  maxRetries: number;
+  // Backoff before retry n is retryBaseDelayMs * 2^n, with jitter
+  retryBaseDelayMs: number;
+  // Longest we will wait before a retry, including Retry-After on 429
+  maxRetryDelayMs: number;
+};
+
+export const DEFAULT_HTTP_OPTIONS: HttpOptions = {
+  timeoutMs: 10000,
+  maxRetries: 2,
+  retryBaseDelayMs: 500,
+  maxRetryDelayMs: 10000,
+};
+
+type RequestOptions<T> = RequestInit & {
+  // Shape the JSON response must have
+  schema?: z.ZodType<T>;
+  // Overrides the configured per-attempt timeout
+  timeoutMs?: number;
+  // Overrides the configured retry count
+  maxRetries?: number;
+  // Overrides the method-based guess, e.g. for PUTs that toggle state
+  idempotent?: boolean;
+};
+
+// Methods that can be replayed without creating duplicates on Discourse
+const IDEMPOTENT_METHODS = new Set(["GET", "HEAD", "PUT", "DELETE"]);
+
+/**
+ * Whether a failed attempt is worth retrying. A 429 means Discourse did not
+ * process the request, so it is always safe to replay; a 5xx or a dropped
+ * connection may have happened after a POST was applied, so only idempotent
+ * requests are retried in that case.
+ */
+const isRetryable = (
+  error: DiscourseApiError | DiscourseResponseError | DiscourseNetworkError,
+  idempotent: boolean
+) => {
+  if (error._tag === "DiscourseResponseError") return false;
+  if (error._tag === "DiscourseApiError" && error.status === 429) return true;
+  if (!idempotent) return false;
+  return error._tag === "DiscourseNetworkError" || error.status >= 500;
+};
 
 /**
  * DiscourseService - Handles Discourse User API operations
  */
 export class DiscourseService {
+  // Category lists by viewer: "" for anonymous, otherwise the username
+  private categoryCache = new Map<
+    string,
+    { categories: Category[]; fetchedAt: number }
+  >();
+
+  private readonly http: HttpOptions;
+
   constructor(
     private readonly baseUrl: string,
     private readonly systemApiKey: string,
-    private readonly systemUsername: string
-  ) {}
+    private readonly systemUsername: string,
+    http: Partial<HttpOptions> = {}
+  ) {
+    this.http = { ...DEFAULT_HTTP_OPTIONS, ...http };
+  }
+
+  // Read-only requests are made as the configured system user
+  private systemHeaders() {
+    return {
+      "Api-Key": this.systemApiKey,
+      "Api-Username": this.systemUsername,
+    };
+  }
+
+  // Public reads send no credentials, so Discourse hides private messages
+  // and read-restricted categories exactly as it does for anonymous visitors
+  private publicHeaders(): Record<string, string> {
+    return {};
+  }
+
+  // User actions run with the user's own key unless impersonation is enabled
+  private userHeaders(auth: DiscourseAuth): Record<string, string> {
+    if (auth.type === "user-api-key") {
+      return { "User-Api-Key": auth.userApiKey };
+    }
+
+    return {
+      "Api-Key": this.systemApiKey,
+      "Api-Username": auth.username,
+    };
+  }
+
+  /**
+   * Shared HTTP layer: resolves with the parsed JSON body (null when empty)
+   * and fails with a DiscourseApiError, DiscourseResponseError or
+   * DiscourseNetworkError. Each attempt is bounded by a timeout; retryable
+   * failures are replayed with backoff.
+   */
+  private request<T = unknown>(path: string, options: RequestOptions<T> = {}) {
+    const {
+      timeoutMs,
+      maxRetries,
+      idempotent: override,
+      schema,
+      ...init
+    } = options;
+    const method = init.method ?? "GET";
+    const idempotent = override ?? IDEMPOTENT_METHODS.has(method);
+    const retries = maxRetries ?? this.http.maxRetries;
+    const { retryBaseDelayMs, maxRetryDelayMs } = this.http;
+
+    const attempt = () =>
+      this.send(path, init, timeoutMs ?? this.http.timeoutMs, schema);
+
+    return Effect.gen(function* () {
+      for (let retry = 0; ; retry++) {
+        const result = yield* Effect.either(attempt());
+        if (result._tag === "Right") return result.right;
+
+        const error = result.left;
+        if (retry >= retries || !isRetryable(error, idempotent)) {
+          return yield* Effect.fail(error);
+        }
+
+        const backoff = retryBaseDelayMs * 2 ** retry;
+        const delayMs =
+          error._tag === "DiscourseApiError" && error.retryAfter !== undefined
+            ? error.retryAfter * 1000
+            : backoff / 2 + Math.random() * (backoff / 2);
+
+        // Waiting longer than allowed: surface the failure with its hint
+        if (delayMs > maxRetryDelayMs) return yield* Effect.fail(error);
+
+        yield* Effect.sleep(delayMs);
+      }
+    });
+  }
+
+  private send<T>(
+    path: string,
+    init: RequestInit,
+    timeoutMs: number,
+    schema?: z.ZodType<T>
+  ) {
+    const url = `${this.baseUrl}${path}`;
+    const method = init.method ?? "GET";
+
+    return Effect.gen(function* () {
+      const timeout = AbortSignal.timeout(timeoutMs);
+      const signal = init.signal
+        ? AbortSignal.any([init.signal, timeout])
+        : timeout;
+
+      const response = yield* Effect.tryPromise({
+        try: () => fetch(url, { ...init, signal }),
+        catch: (error: unknown) =>
+          new DiscourseNetworkError({
+            message: timeout.aborted
+              ? `${method} ${path} timed out after ${timeoutMs}ms`
+              : `${method} ${path} failed: ${
+                  error instanceof Error ? error.message : String(error)
+                }`,
+          }),
+      });
+
+      const text = yield* Effect.tryPromise({
+        try: () => response.text(),
+        catch: (error: unknown) =>
+          new DiscourseNetworkError({
+            message: `${method} ${path} failed reading response: ${
+              error instanceof Error ? error.message : String(error)
+            }`,
+          }),
+      });
+
+      if (!response.ok) {
+        return yield* discourseApiError(method, path, response, text);
+      }
+
+      const data: unknown =
+        text.trim().length === 0
+          ? null
+          : yield* Effect.try({
+              try: () => JSON.parse(text),
+              catch: () =>
+                new DiscourseResponseError({
+                  status: response.status,
+                  message: `${method} ${path} returned invalid JSON`,
+                }),
+            });
+      if (!schema) return data as T;
+
+      const parsed = schema.safeParse(data);
+      if (!parsed.success) {
+        return yield* new DiscourseResponseError({
+          status: response.status,
+          message: `${method} ${path} returned an unexpected response`,
+        });
+      }
+      return parsed.data;
+    });
+  }
+
+  private jsonRequest<T = unknown>(
+    path: string,
+    method: string,
+    headers: Record<string, string>,
+    body: unknown,
+    schema?: z.ZodType<T>
+  ) {
+    return this.request(path, {
+      method,
+      headers: { ...headers, "Content-Type": "application/json" },
+      body: JSON.stringify(body),
+      schema,
+    });
+  }
 
   generateAuthUrl(params: {
     clientId: string;
     applicationName: string;
     nonce: string;
     publicKey: string;
+    scopes?: UserApiScope[];
   }) {
     return Effect.try(() => {
       const publicKeyEncoded = encodeURIComponent(params.publicKey);
@@ -40,7 +743,9 @@ export class DiscourseService {
         `client_id=${encodeURIComponent(params.clientId)}`,
         `application_name=${encodeURIComponent(params.applicationName)}`,
         `nonce=${encodeURIComponent(params.nonce)}`,
-        `scopes=${encodeURIComponent("read,write")}`,
+        `scopes=${encodeURIComponent(
+          (params.scopes ?? DEFAULT_USER_API_SCOPES).join(",")
+        )}`,
         `public_key=${publicKeyEncoded}`,
       ].join("&");
 
@@ -48,32 +753,135 @@ export class DiscourseService {
     });
   }
 
+  /**
+   * Probe the forum's public endpoint; resolves with the round-trip latency
+   */
+  checkConnectivity(timeoutMs: number) {
+    return Effect.suspend(() => {
+      const startedAt = Date.now();
+      return this.request("/site/basic-info.json", {
+        timeoutMs,
+        maxRetries: 0,
+      }).pipe(Effect.map(() => Date.now() - startedAt));
+    });
+  }
+
+  /**
+   * Whether Discourse accepts the configured system API key and username
+   */
+  validateSystemApiKey(timeoutMs: number) {
+    return this.request("/session/current.json", {
+      headers: this.systemHeaders(),
+      timeoutMs,
+      maxRetries: 0,
+      // Only whether anyone is signed in matters here
+      schema: z.object({ current_user: z.unknown() }).nullable(),
+    }).pipe(
+      Effect.map((data) => Boolean(data?.current_user)),
+      // Discourse answers 403/404 when the key does not authenticate anyone
+      Effect.catchIf(
+        (error) =>
+          error._tag === "DiscourseApiError" &&
+          [401, 403, 404].includes(error.status),
+        () => Effect.succeed(false)
+      )
+    );
+  }
+
+  getVersion(timeoutMs: number) {
+    return this.request("/about.json", {
+      headers: this.systemHeaders(),
+      timeoutMs,
+      maxRetries: 0,
+      schema: AboutPayloadSchema,
+    }).pipe(Effect.map((data) => data?.about?.version ?? null));
+  }
+
   getCurrentUser(userApiKey: string) {
-    return Effect.tryPromise({
-      try: async () => {
-        const response = await fetch(`${this.baseUrl}/session/current.json`, {
-          headers: { "User-Api-Key": userApiKey },
+    return this.request("/session/current.json", {
+      headers: { "User-Api-Key": userApiKey },
+      schema: SessionPayloadSchema,
+    }).pipe(
+      Effect.flatMap((data) => {
+        const user = data?.current_user;
+        if (!user) {
+          return Effect.fail(
+            new DiscourseApiError({
+              status: 401,
+              message: "User API key is not associated with a Discourse user",
+              errors: [],
+            })
+          );
+        }
+
+        return Effect.succeed({
+          id: user.id,
+          username: user.username,
+          name: user.name ?? null,
         });
+      })
+    );
+  }
 
-        if (!response.ok) {
-          throw new Error(`Failed to get user: ${response.status}`);
-        }
+  revokeUserApiKey(userApiKey: string) {
+    return this.request("/user-api-key/revoke", {
+      method: "POST",
+      headers: { "User-Api-Key": userApiKey },
+    }).pipe(Effect.asVoid);
+  }
 
-        const data = await response.json();
-        const user = data.current_user;
+  /**
+   * Categories as seen anonymously, or as the given user; `permission` is
+   * only known for a user
+   */
+  getCategories(auth?: DiscourseAuth) {
+    const viewer = auth?.username ?? "";
+    const cached = this.categoryCache.get(viewer);
+    if (cached && Date.now() - cached.fetchedAt < CATEGORY_CACHE_TTL) {
+      return Effect.succeed(cached.categories);
+    }
 
-        return {
-          id: user.id as number,
-          username: user.username as string,
-          name: user.name as string,
-        };
-      },
-      catch: (error: unknown) =>
-        new Error(
-          `Get user failed: ${
-            error instanceof Error ? error.message : String(error)
-          }`
-        ),
+    return this.request("/categories.json?include_subcategories=true", {
+      headers: auth ? this.userHeaders(auth) : this.publicHeaders(),
+      schema: CategoryListPayloadSchema,
+    }).pipe(
+      Effect.map((data) => {
+        const categories: Category[] = (
+          data?.category_list?.categories ?? []
+        ).map((category) => ({
+          ...mapCategory(category),
+          subcategories: (category.subcategory_list ?? []).map(mapCategory),
+        }));
+
+        this.categoryCache.set(viewer, { categories, fetchedAt: Date.now() });
+        return categories;
+      })
+    );
+  }
+
+  /**
+   * Resolve a category id or slug to a category id the user can create
+   * topics in. Subcategories can be addressed as "parent/child" or by their
+   * own slug. Returns null when the user cannot see the category or it is
+   * read-only for them.
+   */
+  resolveCategory(category: number | string, auth: DiscourseAuth) {
+    return Effect.map(this.getCategories(auth), (categories) => {
+      const candidates = categories.flatMap((parent) =>
+        [parent, ...parent.subcategories].map((entry) => ({
+          entry,
+          path: entry === parent ? parent.slug : `${parent.slug}/${entry.slug}`,
+        }))
+      );
+
+      const match = candidates.find(({ entry, path }) =>
+        typeof category === "number"
+          ? entry.id === category
+          : path === category || entry.slug === category
+      );
+
+      if (!match || match.entry.permission === "readonly") return null;
+      return match.entry.id;
     });
   }
 
@@ -81,46 +889,383 @@ export class DiscourseService {
     title: string;
     raw: string;
     category?: number;
-    username: string;
+    auth: DiscourseAuth;
   }) {
-    return Effect.tryPromise({
-      try: async () => {
-        const response = await fetch(`${this.baseUrl}/posts.json`, {
-          method: "POST",
-          headers: {
-            "Api-Key": this.systemApiKey,
-            "Api-Username": params.username,
-            "Content-Type": "application/json",
-          },
-          body: JSON.stringify({
-            title: params.title,
-            raw: params.raw,
-            category: params.category,
-          }),
-        });
+    return this.jsonRequest(
+      "/posts.json",
+      "POST",
+      this.userHeaders(params.auth),
+      {
+        title: params.title,
+        raw: params.raw,
+        category: params.category,
+      },
+      CreatedPostPayloadSchema.omit({ post_number: true })
+    ).pipe(
+      Effect.map((data) => ({
+        id: data.id,
+        topic_id: data.topic_id,
+        topic_slug: data.topic_slug,
+      }))
+    );
+  }
 
-        if (!response.ok) {
-          const error = await response.text();
-          throw new Error(
-            `Discourse API error (posting as ${params.username}): ${response.status} - ${error}`
-          );
-        }
+  createReply(params: {
+    topicId: number;
+    raw: string;
+    replyToPostNumber?: number;
+    auth: DiscourseAuth;
+  }) {
+    return this.jsonRequest(
+      "/posts.json",
+      "POST",
+      this.userHeaders(params.auth),
+      {
+        topic_id: params.topicId,
+        raw: params.raw,
+        reply_to_post_number: params.replyToPostNumber,
+      },
+      CreatedPostPayloadSchema
+    ).pipe(
+      Effect.map((data) => ({
+        id: data.id,
+        topic_id: data.topic_id,
+        topic_slug: data.topic_slug,
+        post_number: data.post_number,
+      }))
+    );
+  }
+
+  sendPrivateMessage(params: {
+    title: string;
+    raw: string;
+    recipients: string[];
+    auth: DiscourseAuth;
+  }) {
+    return this.jsonRequest(
+      "/posts.json",
+      "POST",
+      this.userHeaders(params.auth),
+      {
+        title: params.title,
+        raw: params.raw,
+        archetype: "private_message",
+        target_recipients: params.recipients.join(","),
+      },
+      CreatedPostPayloadSchema.omit({ post_number: true })
+    ).pipe(
+      Effect.map((data) => ({
+        id: data.id,
+        topic_id: data.topic_id,
+        topic_slug: data.topic_slug,
+      }))
+    );
+  }
+
+  /**
+   * Private message threads the user received ("inbox") or started ("sent")
+   */
+  listPrivateMessages(params: {
+    folder: "inbox" | "sent";
+    page: number;
+    auth: DiscourseAuth;
+  }) {
+    const username = encodeURIComponent(params.auth.username);
+    const path =
+      params.folder === "sent"
+        ? `/topics/private-messages-sent/${username}.json`
+        : `/topics/private-messages/${username}.json`;
+
+    return this.request(`${path}?page=${params.page}`, {
+      headers: this.userHeaders(params.auth),
+      schema: TopicListPayloadSchema,
+    }).pipe(Effect.map((data) => mapTopicList(data, params.page)));
+  }
+
+  likePost(params: { postId: number; auth: DiscourseAuth }) {
+    return this.jsonRequest(
+      "/post_actions.json",
+      "POST",
+      this.userHeaders(params.auth),
+      { id: params.postId, post_action_type_id: LIKE_ACTION_TYPE },
+      PostReactionsPayloadSchema
+    ).pipe(Effect.map((data) => mapPostReactions(data, params.postId)));
+  }
+
+  unlikePost(params: { postId: number; auth: DiscourseAuth }) {
+    return this.request(
+      `/post_actions/${params.postId}.json?post_action_type_id=${LIKE_ACTION_TYPE}`,
+      {
+        method: "DELETE",
+        headers: this.userHeaders(params.auth),
+        schema: PostReactionsPayloadSchema,
+      }
+    ).pipe(Effect.map((data) => mapPostReactions(data, params.postId)));
+  }
+
+  /**
+   * Toggle a discourse-reactions emoji; Discourse answers 404 when the
+   * plugin is not installed
+   */
+  togglePostReaction(params: {
+    postId: number;
+    reaction: string;
+    auth: DiscourseAuth;
+  }) {
+    return this.request(
+      `/discourse-reactions/posts/${
+        params.postId
+      }/custom-reactions/${encodeURIComponent(params.reaction)}/toggle.json`,
+      {
+        method: "PUT",
+        headers: this.userHeaders(params.auth),
+        // Replaying a toggle after an ambiguous failure could undo it
+        idempotent: false,
+        schema: PostReactionsPayloadSchema,
+      }
+    ).pipe(Effect.map((data) => mapPostReactions(data, params.postId)));
+  }
+
+  getNotifications(params: {
+    unreadOnly: boolean;
+    page: number;
+    auth: DiscourseAuth;
+  }) {
+    const query = [
+      `limit=${NOTIFICATIONS_PER_PAGE}`,
+      `offset=${params.page * NOTIFICATIONS_PER_PAGE}`,
+      ...(params.unreadOnly ? ["filter=unread"] : []),
+    ].join("&");
+
+    return this.request(`/notifications.json?${query}`, {
+      headers: this.userHeaders(params.auth),
+      schema: NotificationListPayloadSchema,
+    }).pipe(Effect.map((data) => mapNotificationList(data, params.page)));
+  }
+
+  /**
+   * Mark a single notification as read, or all of them without an id
+   */
+  markNotificationsRead(params: {
+    notificationId?: number;
+    auth: DiscourseAuth;
+  }) {
+    return this.jsonRequest(
+      "/notifications/mark-read.json",
+      "PUT",
+      this.userHeaders(params.auth),
+      params.notificationId !== undefined ? { id: params.notificationId } : {}
+    ).pipe(Effect.asVoid);
+  }
+
+  /**
+   * A post as seen anonymously, or as the given user
+   */
+  getPost(postId: number, auth?: DiscourseAuth) {
+    return this.request(`/posts/${postId}.json`, {
+      headers: auth ? this.userHeaders(auth) : this.publicHeaders(),
+      schema: PostPayloadSchema,
+    }).pipe(Effect.map(mapPost));
+  }
+
+  getTopic(params: { topicId: number; page: number }) {
+    return this.request(`/t/${params.topicId}.json?page=${params.page + 1}`, {
+      headers: this.publicHeaders(),
+      schema: TopicDetailPayloadSchema,
+    }).pipe(
+      Effect.map((data): TopicDetail => {
+        const posts = (data.post_stream?.posts ?? []).map(mapPost);
+        const lastPostNumber = posts.length
+          ? posts[posts.length - 1].postNumber
+          : 0;
 
-        const data = await response.json();
         return {
-          id: data.id as number,
-          topic_id: data.topic_id as number,
-          topic_slug: data.topic_slug as string,
+          ...mapTopic(data),
+          posts,
+          nextPage:
+            posts.length === POSTS_PER_PAGE &&
+            lastPostNumber < (data.highest_post_number ?? 0)
+              ? params.page + 1
+              : null,
         };
-      },
-      catch: (error: unknown) =>
-        new Error(
-          `Create post failed: ${
-            error instanceof Error ? error.message : String(error)
-          }`
-        ),
-    });
+      })
+    );
   }
+
+  /**
+   * The topic's last page of posts, fetched by id when they are not on the
+   * first page, so watchers see new posts and recent edits
+   */
+  getLatestTopicPosts(topicId: number) {
+    return this.request(`/t/${topicId}.json`, {
+      headers: this.publicHeaders(),
+      schema: PostStreamPayloadSchema,
+    }).pipe(
+      Effect.flatMap((data) => {
+        const loaded = (data.post_stream?.posts ?? []).map(mapPost);
+        const ids = (
+          data.post_stream?.stream ?? loaded.map((post) => post.id)
+        ).slice(-POSTS_PER_PAGE);
+        const latest = loaded.filter((post) => ids.includes(post.id));
+        const missing = ids.filter(
+          (id) => !latest.some((post) => post.id === id)
+        );
+
+        if (missing.length === 0) {
+          return Effect.succeed(latest);
+        }
+
+        const query = missing.map((id) => `post_ids[]=${id}`).join("&");
+        return this.request(`/t/${topicId}/posts.json?${query}`, {
+          headers: this.publicHeaders(),
+          schema: PostStreamPayloadSchema,
+        }).pipe(
+          Effect.map((more): Post[] => [
+            ...latest,
+            ...(more.post_stream?.posts ?? []).map(mapPost),
+          ])
+        );
+      })
+    );
+  }
+
+  /**
+   * Full-text search; filters are appended to the query in Discourse's
+   * advanced search syntax
+   */
+  search(params: {
+    query: string;
+    category?: number | string;
+    username?: string;
+    tags?: string[];
+    status?: string;
+    after?: string;
+    before?: string;
+    page: number;
+  }) {
+    const terms = [
+      params.query,
+      ...(typeof params.category === "number"
+        ? [`category:${params.category}`]
+        : params.category
+        ? [`#${params.category.replace("/", ":")}`]
+        : []),
+      ...(params.username ? [`@${params.username}`] : []),
+      ...(params.tags?.length ? [`tags:${params.tags.join(",")}`] : []),
+      ...(params.status ? [`status:${params.status}`] : []),
+      ...(params.after ? [`after:${params.after}`] : []),
+      ...(params.before ? [`before:${params.before}`] : []),
+    ];
+
+    return this.request(
+      `/search.json?q=${encodeURIComponent(terms.join(" "))}&page=${
+        params.page + 1
+      }`,
+      { headers: this.publicHeaders(), schema: SearchPayloadSchema }
+    ).pipe(Effect.map((data) => mapSearchResult(data, params.page)));
+  }
+
+  /**
+   * Topics similar to a draft, as seen anonymously or as the given user
+   */
+  findSimilarTopics(params: {
+    title: string;
+    raw?: string;
+    auth?: DiscourseAuth;
+  }) {
+    // Discourse requires raw, though it may be empty
+    const query = [
+      `title=${encodeURIComponent(params.title)}`,
+      `raw=${encodeURIComponent(
+        (params.raw ?? "").slice(0, SIMILAR_TOPICS_RAW_LENGTH)
+      )}`,
+    ].join("&");
+
+    return this.request(`/topics/similar_to.json?${query}`, {
+      headers: params.auth
+        ? this.userHeaders(params.auth)
+        : this.publicHeaders(),
+      schema: SimilarTopicsPayloadSchema,
+    }).pipe(Effect.map(mapSimilarTopics));
+  }
+
+  listLatestTopics(params: { page: number }) {
+    return this.request(`/latest.json?page=${params.page}`, {
+      headers: this.publicHeaders(),
+      schema: TopicListPayloadSchema,
+    }).pipe(Effect.map((data) => mapTopicList(data, params.page)));
+  }
+
+  listCategoryTopics(params: { categoryId: number; page: number }) {
+    return this.request(`/c/${params.categoryId}.json?page=${params.page}`, {
+      headers: this.publicHeaders(),
+      schema: TopicListPayloadSchema,
+    }).pipe(Effect.map((data) => mapTopicList(data, params.page)));
+  }
+
+  editPost(params: {
+    postId: number;
+    raw: string;
+    editReason?: string;
+    auth: DiscourseAuth;
+  }) {
+    return this.jsonRequest(
+      `/posts/${params.postId}.json`,
+      "PUT",
+      this.userHeaders(params.auth),
+      { post: { raw: params.raw, edit_reason: params.editReason } },
+      z.object({ post: CreatedPostPayloadSchema })
+    ).pipe(
+      Effect.map(({ post }) => ({
+        id: post.id,
+        topic_id: post.topic_id,
+        topic_slug: post.topic_slug,
+        post_number: post.post_number,
+      }))
+    );
+  }
+
+  deletePost(params: { postId: number; auth: DiscourseAuth }) {
+    return this.request(`/posts/${params.postId}.json`, {
+      method: "DELETE",
+      headers: this.userHeaders(params.auth),
+    }).pipe(Effect.asVoid);
+  }
+}
+
+const BASE64_PATTERN = /^[A-Za-z0-9+/]*={0,2}$/;
+
+/**
+ * RSA decryption with PKCS#1 v1.5 padding.
+ *
+ * Node refuses RSA_PKCS1_PADDING for private decryption (CVE-2023-46809),
+ * but it is what Discourse uses to encrypt User API key payloads. We decrypt
+ * without padding and strip the EME-PKCS1-v1_5 encoding ourselves:
+ * 0x00 || 0x02 || PS (>= 8 non-zero bytes) || 0x00 || message
+ */
+function decryptPkcs1v15(ciphertext: Buffer, privateKeyPem: string): Buffer {
+  const key = createPrivateKey(privateKeyPem);
+  const modulusBytes = Math.ceil(
+    (key.asymmetricKeyDetails?.modulusLength ?? 0) / 8
+  );
+
+  if (ciphertext.length !== modulusBytes) {
+    throw new Error(
+      `Ciphertext is ${ciphertext.length} bytes, expected ${modulusBytes}`
+    );
+  }
+
+  const encoded = privateDecrypt(
+    { key, padding: constants.RSA_NO_PADDING },
+    ciphertext
+  );
+
+  const separator = encoded.indexOf(0, 2);
+  if (encoded[0] !== 0x00 || encoded[1] !== 0x02 || separator < 10) {
+    throw new Error("Invalid PKCS#1 v1.5 padding");
+  }
+
+  return encoded.subarray(separator + 1);
 }
 
 /**
@@ -140,36 +1285,44 @@ export class CryptoService {
   }
 
   decryptPayload(encryptedPayload: string, privateKey: string) {
-    return Effect.tryPromise({
-      try: async () => {
-        const tempKeyPath = join(process.cwd(), `.temp-key-${Date.now()}.pem`);
-        writeFileSync(tempKeyPath, privateKey);
+    return Effect.gen(function* () {
+      // Discourse wraps base64 output at 60 columns
+      const base64 = encryptedPayload.replace(/\s+/g, "");
+      if (!BASE64_PATTERN.test(base64) || base64.length % 4 !== 0) {
+        return yield* new DecryptionError({
+          reason: "invalid_base64",
+          message: "Encrypted payload is not valid base64",
+        });
+      }
 
-        try {
-          const { stdout, stderr } = await execAsync(
-            `echo "${encryptedPayload}" | base64 -d | openssl pkeyutl -decrypt -inkey "${tempKeyPath}" -pkeyopt rsa_padding_mode:pkcs1`
-          );
+      const plaintext = yield* Effect.try({
+        try: () => decryptPkcs1v15(Buffer.from(base64, "base64"), privateKey),
+        catch: (error: unknown) =>
+          new DecryptionError({
+            reason: "wrong_key",
+            message: `Decrypt failed: ${
+              error instanceof Error ? error.message : String(error)
+            }`,
+          }),
+      });
 
-          if (stderr) {
-            console.error("[CryptoService] Decryption stderr:", stderr);
-          }
+      const data = yield* Effect.try({
+        try: () => JSON.parse(plaintext.toString("utf8")),
+        catch: () =>
+          new DecryptionError({
+            reason: "invalid_json",
+            message: "Decrypted payload is not valid JSON",
+          }),
+      });
 
-          if (!stdout || stdout.trim().length === 0) {
-            throw new Error("Decryption produced empty result");
-          }
+      if (typeof data?.key !== "string" || data.key.length === 0) {
+        return yield* new DecryptionError({
+          reason: "invalid_json",
+          message: "Decrypted payload does not contain a user API key",
+        });
+      }
 
-          const data = JSON.parse(stdout.trim());
-          return data.key as string;
-        } finally {
-          unlinkSync(tempKeyPath);
-        }
-      },
-      catch: (error: unknown) =>
-        new Error(
-          `Decrypt failed: ${
-            error instanceof Error ? error.message : String(error)
-          }`
-        ),
+      return data.key as string;
     });
   }
 }
@@ -178,48 +1331,115 @@ export class CryptoService {
  * NEARService - Handles NEAR signature verification
  */
 export class NEARService {
-  constructor(private readonly recipient: string) {}
+  constructor(
+    private readonly recipient: string,
+    // Signed nonces already accepted, mapped to when they can be forgotten
+    private readonly usedNonces: StorageBackend<number> = new MemoryStorage()
+  ) {}
 
-  verifySignature(authToken: string, nonceMaxAge: number = 600000) {
+  /**
+   * Verify an auth token and mark its nonce as used. When `expectedMessage`
+   * is given, the token must have signed exactly that message.
+   */
+  verifySignature(
+    authToken: string,
+    nonceMaxAge: number = 600000,
+    expectedMessage?: string
+  ) {
     return Effect.tryPromise({
       try: async () => {
         const result = await verify(authToken, {
           expectedRecipient: this.recipient,
           nonceMaxAge,
+          ...(expectedMessage !== undefined ? { expectedMessage } : {}),
         });
 
+        // Checked after the await so concurrent replays cannot both pass
+        const { nonce } = parseAuthToken(authToken);
+        const key = `${result.publicKey}:${Buffer.from(nonce).toString("hex")}`;
+        let replayed = false;
+        this.usedNonces.update(key, (expiresAt) => {
+          replayed = expiresAt !== null && expiresAt > Date.now();
+          return replayed ? expiresAt! : Date.now() + nonceMaxAge;
+        });
+        if (replayed) {
+          throw new Error("auth token has already been used");
+        }
+
         return result.accountId;
       },
       catch: (error: unknown) =>
-        new Error(
-          `NEAR verification failed: ${
+        new NearVerificationError({
+          message: `NEAR verification failed: ${
             error instanceof Error ? error.message : String(error)
-          }`
-        ),
+          }`,
+        }),
     });
   }
+
+  cleanup(): void {
+    const now = Date.now();
+    for (const [key, expiresAt] of this.usedNonces.entries()) {
+      if (expiresAt <= now) {
+        this.usedNonces.delete(key);
+      }
+    }
+  }
+}
+
+/**
+ * The message a NEAR auth token must sign to authorize `action` with
+ * `params`: "discourse:<action>:<sha256 of the params as sorted-key JSON>"
+ */
+export function actionMessage(
+  action: string,
+  params: Record<string, unknown>
+): string {
+  const canonical = JSON.stringify(params, Object.keys(params).sort());
+  const digest = createHash("sha256").update(canonical).digest("hex");
+  return `discourse:${action}:${digest}`;
 }
 
 /**
  * NonceManager - Manages temporary nonces with private keys
+ *
+ * When a cipher is provided, private keys are encrypted before they reach
+ * the storage backend.
  */
 export class NonceManager {
-  private nonces = new Map<
-    string,
-    { clientId: string; privateKey: string; timestamp: number }
-  >();
   private readonly TTL = 10 * 60 * 1000; // 10 minutes
 
-  create(clientId: string, privateKey: string): string {
+  constructor(
+    private readonly nonces: StorageBackend<StoredNonceData> = new MemoryStorage(),
+    private readonly cipher?: EnvelopeCipher
+  ) {}
+
+  create(
+    clientId: string,
+    privateKey: string,
+    scopes: UserApiScope[] = DEFAULT_USER_API_SCOPES
+  ): string {
     const nonce = randomBytes(32).toString("hex");
-    this.nonces.set(nonce, { clientId, privateKey, timestamp: Date.now() });
+    this.nonces.set(nonce, {
+      clientId,
+      privateKey: this.cipher ? this.cipher.encrypt(privateKey) : privateKey,
+      scopes,
+      timestamp: Date.now(),
+    });
     return nonce;
   }
 
-  get(
-    nonce: string
-  ): { clientId: string; privateKey: string; timestamp: number } | null {
-    return this.nonces.get(nonce) || null;
+  get(nonce: string): NonceData | null {
+    const stored = this.nonces.get(nonce);
+    if (!stored) return null;
+
+    const { privateKey } = stored;
+    if (!isEncryptedValue(privateKey)) return { ...stored, privateKey };
+
+    if (!this.cipher) {
+      throw new Error("Nonce is encrypted but no encryption key is configured");
+    }
+    return { ...stored, privateKey: this.cipher.decrypt(privateKey) };
   }
 
   verify(nonce: string, clientId: string): boolean {
@@ -233,13 +1453,17 @@ export class NonceManager {
   }
 
   getPrivateKey(nonce: string): string | null {
-    return this.nonces.get(nonce)?.privateKey || null;
+    return this.get(nonce)?.privateKey || null;
   }
 
   consume(nonce: string): void {
     this.nonces.delete(nonce);
   }
 
+  size(): number {
+    return this.nonces.entries().length;
+  }
+
   cleanup(): void {
     const now = Date.now();
     for (const [nonce, data] of this.nonces.entries()) {
@@ -252,19 +1476,199 @@ export class NonceManager {
 
 /**
  * LinkageStore - Stores NEAR account to Discourse user mappings
+ *
+ * When a cipher is provided, user API keys are encrypted before they reach
+ * the storage backend. Plaintext keys from before encryption was enabled and
+ * keys sealed with a rotated-out secret are re-encrypted on read.
+ *
+ * A secondary index maps Discourse user ids and usernames to the NEAR
+ * accounts linked to them; it is rebuilt from the linkages when empty.
  */
 export class LinkageStore {
-  private linkages = new Map<string, Linkage>();
+  constructor(
+    private readonly linkages: StorageBackend<StoredLinkage> = new MemoryStorage(),
+    private readonly cipher?: EnvelopeCipher,
+    private readonly index: StorageBackend<string[]> = new MemoryStorage()
+  ) {
+    if (this.index.entries().length === 0) {
+      for (const [nearAccount, stored] of this.linkages.entries()) {
+        this.addToIndex(nearAccount, stored);
+      }
+    }
+  }
 
   set(nearAccount: string, linkage: Linkage): void {
-    this.linkages.set(nearAccount, linkage);
+    const previous = this.linkages.get(nearAccount);
+    if (previous) this.removeFromIndex(nearAccount, previous);
+
+    this.linkages.set(nearAccount, this.seal(linkage));
+    this.addToIndex(nearAccount, linkage);
   }
 
   get(nearAccount: string): Linkage | null {
-    return this.linkages.get(nearAccount) || null;
+    const stored = this.linkages.get(nearAccount);
+    return stored ? this.open(nearAccount, stored) : null;
+  }
+
+  delete(nearAccount: string): boolean {
+    const previous = this.linkages.get(nearAccount);
+    if (previous) this.removeFromIndex(nearAccount, previous);
+
+    return this.linkages.delete(nearAccount);
+  }
+
+  size(): number {
+    return this.linkages.entries().length;
   }
 
   getAll(): Linkage[] {
-    return Array.from(this.linkages.values());
+    return this.linkages
+      .entries()
+      .map(([nearAccount, stored]) => this.open(nearAccount, stored));
+  }
+
+  /**
+   * Linkages of a Discourse user, looked up by user id or else by username
+   */
+  findByDiscourseUser(query: {
+    userId?: number;
+    username?: string;
+  }): Linkage[] {
+    const username = query.username?.toLowerCase();
+    const key =
+      query.userId !== undefined
+        ? `id:${query.userId}`
+        : `username:${username}`;
+
+    // Entries are re-checked in case another instance changed the linkage
+    return (this.index.get(key) ?? [])
+      .map((nearAccount) => this.get(nearAccount))
+      .filter(
+        (linkage): linkage is Linkage =>
+          linkage !== null &&
+          (query.userId !== undefined
+            ? linkage.discourseUserId === query.userId
+            : linkage.discourseUsername.toLowerCase() === username)
+      );
+  }
+
+  private indexKeys(linkage: StoredLinkage): string[] {
+    return [
+      `id:${linkage.discourseUserId}`,
+      `username:${linkage.discourseUsername.toLowerCase()}`,
+    ];
+  }
+
+  private addToIndex(nearAccount: string, linkage: StoredLinkage): void {
+    for (const key of this.indexKeys(linkage)) {
+      const accounts = this.index.get(key) ?? [];
+      if (!accounts.includes(nearAccount)) {
+        this.index.set(key, [...accounts, nearAccount]);
+      }
+    }
+  }
+
+  private removeFromIndex(nearAccount: string, linkage: StoredLinkage): void {
+    for (const key of this.indexKeys(linkage)) {
+      const accounts = (this.index.get(key) ?? []).filter(
+        (account) => account !== nearAccount
+      );
+      if (accounts.length > 0) {
+        this.index.set(key, accounts);
+      } else {
+        this.index.delete(key);
+      }
+    }
+  }
+
+  private seal(linkage: Linkage): StoredLinkage {
+    if (!this.cipher) return linkage;
+    return { ...linkage, userApiKey: this.cipher.encrypt(linkage.userApiKey) };
+  }
+
+  private open(nearAccount: string, stored: StoredLinkage): Linkage {
+    const { userApiKey } = stored;
+
+    if (!isEncryptedValue(userApiKey)) {
+      const linkage = { ...stored, userApiKey };
+      if (this.cipher) this.linkages.set(nearAccount, this.seal(linkage));
+      return linkage;
+    }
+
+    if (!this.cipher) {
+      throw new Error(
+        `Linkage for ${nearAccount} is encrypted but no encryption key is configured`
+      );
+    }
+
+    const linkage = { ...stored, userApiKey: this.cipher.decrypt(userApiKey) };
+    if (this.cipher.needsRotation(userApiKey)) {
+      this.linkages.set(nearAccount, this.seal(linkage));
+    }
+    return linkage;
+  }
+}
+
+// The parts of an auth token needed to re-verify its signature, without the
+// token itself, which could be replayed once its nonce is forgotten
+const signedPayload = (authToken: string) => {
+  const token = parseAuthToken(authToken);
+  return {
+    message: token.message,
+    publicKey: token.publicKey,
+    signature: token.signature,
+    nonce: Buffer.from(token.nonce).toString("base64"),
+    recipient: token.recipient,
+    callbackUrl: token.callbackUrl,
+  };
+};
+
+/**
+ * ProvenanceStore - Keeps the NEAR signature each post was written with
+ *
+ * Signed messages commit to the post body through `actionMessage`, so the
+ * current content of a post can be checked by rebuilding the message from
+ * it and the other signed parameters.
+ */
+export class ProvenanceStore {
+  constructor(
+    private readonly records: StorageBackend<ProvenanceRecord> = new MemoryStorage()
+  ) {}
+
+  record(params: {
+    postId: number;
+    nearAccount: string;
+    action: ProvenanceRecord["action"];
+    signedParams: Record<string, unknown>;
+    authToken: string;
+  }): void {
+    const { authToken, signedParams, ...post } = params;
+
+    this.records.set(String(params.postId), {
+      ...post,
+      params: signedParams,
+      ...signedPayload(authToken),
+      signedAt: new Date().toISOString(),
+    });
+  }
+
+  /**
+   * Provenance of a post against its current body, null if none was recorded
+   */
+  verify(postId: number, raw: string | undefined): Provenance | null {
+    const stored = this.records.get(String(postId));
+    if (!stored) return null;
+
+    const { params, ...provenance } = stored;
+    return {
+      ...provenance,
+      contentMatches:
+        raw !== undefined &&
+        actionMessage(stored.action, { ...params, raw }) === stored.message,
+    };
+  }
+
+  has(postId: number): boolean {
+    return this.records.get(String(postId)) !== null;
   }
 }
@@ -0,0 +1,175 @@
+import { randomBytes } from "crypto";
+import {
+  closeSync,
+  existsSync,
+  mkdirSync,
+  openSync,
+  readFileSync,
+  renameSync,
+  rmSync,
+  statSync,
+  writeFileSync,
+} from "fs";
+import { dirname, join } from "path";
+
+/**
+ * StorageBackend - Key/value persistence used by the nonce and linkage stores
+ */
+export interface StorageBackend<T> {
+  get(key: string): T | null;
+  set(key: string, value: T): void;
+  delete(key: string): boolean;
+  entries(): Array<[string, T]>;
+  // Read and replace a value in one step, with no write in between
+  update(key: string, fn: (current: T | null) => T): T;
+}
+
+export type StorageKind = "memory" | "file";
+
+/**
+ * MemoryStorage - Process-local storage, cleared on every restart
+ */
+export class MemoryStorage<T> implements StorageBackend<T> {
+  private items = new Map<string, T>();
+
+  get(key: string): T | null {
+    return this.items.get(key) ?? null;
+  }
+
+  set(key: string, value: T): void {
+    this.items.set(key, value);
+  }
+
+  delete(key: string): boolean {
+    return this.items.delete(key);
+  }
+
+  entries(): Array<[string, T]> {
+    return Array.from(this.items.entries());
+  }
+
+  update(key: string, fn: (current: T | null) => T): T {
+    const value = fn(this.get(key));
+    this.items.set(key, value);
+    return value;
+  }
+}
+
+// How long a writer waits for the lock, and when a lock left behind by a
+// crashed writer may be broken
+const LOCK_TIMEOUT_MS = 5_000;
+const LOCK_STALE_MS = 30_000;
+const LOCK_RETRY_MS = 10;
+const lockWait = new Int32Array(new SharedArrayBuffer(4));
+
+/**
+ * FileStorage - JSON document on disk that survives restarts
+ *
+ * The file is re-read on every access so plugin instances sharing a path
+ * (e.g. a mounted volume) observe each other's writes. Writes hold a lock
+ * file for the whole read-modify-write so concurrent writers do not lose
+ * each other's changes, and go through a uniquely named temp file and a
+ * rename so readers never see a partially written document.
+ */
+export class FileStorage<T> implements StorageBackend<T> {
+  constructor(private readonly filePath: string) {}
+
+  get(key: string): T | null {
+    return this.read()[key] ?? null;
+  }
+
+  set(key: string, value: T): void {
+    this.update(key, () => value);
+  }
+
+  delete(key: string): boolean {
+    return this.locked(() => {
+      const items = this.read();
+      if (!(key in items)) return false;
+      delete items[key];
+      this.write(items);
+      return true;
+    });
+  }
+
+  entries(): Array<[string, T]> {
+    return Object.entries(this.read());
+  }
+
+  update(key: string, fn: (current: T | null) => T): T {
+    return this.locked(() => {
+      const items = this.read();
+      const value = fn(items[key] ?? null);
+      items[key] = value;
+      this.write(items);
+      return value;
+    });
+  }
+
+  private read(): Record<string, T> {
+    if (!existsSync(this.filePath)) return {};
+
+    const contents = readFileSync(this.filePath, "utf8");
+    return contents.trim().length > 0 ? JSON.parse(contents) : {};
+  }
+
+  private write(items: Record<string, T>): void {
+    // Random, not the pid, which repeats across containers
+    const tempPath = `${this.filePath}.${randomBytes(8).toString("hex")}.tmp`;
+    writeFileSync(tempPath, JSON.stringify(items), { mode: 0o600 });
+    renameSync(tempPath, this.filePath);
+  }
+
+  private locked<R>(fn: () => R): R {
+    mkdirSync(dirname(this.filePath), { recursive: true });
+    const lockPath = `${this.filePath}.lock`;
+    const deadline = Date.now() + LOCK_TIMEOUT_MS;
+
+    while (!this.tryLock(lockPath)) {
+      if (Date.now() > deadline) {
+        throw new Error(`Timed out waiting for lock on ${this.filePath}`);
+      }
+      Atomics.wait(lockWait, 0, 0, LOCK_RETRY_MS);
+    }
+
+    try {
+      return fn();
+    } finally {
+      rmSync(lockPath, { force: true });
+    }
+  }
+
+  private tryLock(lockPath: string): boolean {
+    try {
+      closeSync(openSync(lockPath, "wx"));
+      return true;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== "EEXIST") throw error;
+    }
+
+    try {
+      if (Date.now() - statSync(lockPath).mtimeMs > LOCK_STALE_MS) {
+        rmSync(lockPath, { force: true });
+      }
+    } catch {
+      // Released between the open and the stat; retry
+    }
+    return false;
+  }
+}
+
+/**
+ * Create a storage backend for a named collection (e.g. "linkages")
+ */
+export function createStorage<T>(
+  kind: StorageKind,
+  namespace: string,
+  directory: string
+): StorageBackend<T> {
+  switch (kind) {
+    case "memory":
+      return new MemoryStorage<T>();
+    case "file":
+      return new FileStorage<T>(join(directory, `${namespace}.json`));
+  }
+}
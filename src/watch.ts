@@ -0,0 +1,276 @@
+import type { z } from "every-plugin/zod";
+import type { PostChangeSchema, PostSchema, TopicSchema } from "./contract";
+
+type Post = z.infer<typeof PostSchema>;
+type Topic = z.infer<typeof TopicSchema>;
+export type PostChange = z.infer<typeof PostChangeSchema>;
+
+/**
+ * PostChangeTracker - Turns repeated snapshots of posts into created and
+ * edited events for anything that changed after `since`
+ */
+export class PostChangeTracker {
+  // Post id -> updatedAt of the version last reported or baselined
+  private seen = new Map<number, string>();
+
+  constructor(private readonly since: number) {}
+
+  diff(posts: Post[]): PostChange[] {
+    const changes: PostChange[] = [];
+
+    for (const post of posts) {
+      const previous = this.seen.get(post.id);
+      if (previous === post.updatedAt) continue;
+      this.seen.set(post.id, post.updatedAt);
+
+      const updatedAt = Date.parse(post.updatedAt);
+      if (previous === undefined && Date.parse(post.createdAt) > this.since) {
+        changes.push({ type: "created", post, cursor: post.updatedAt });
+      } else if (previous !== undefined || updatedAt > this.since) {
+        changes.push({ type: "edited", post, cursor: post.updatedAt });
+      }
+    }
+
+    return changes.sort((a, b) => Date.parse(a.cursor) - Date.parse(b.cursor));
+  }
+}
+
+/**
+ * Build a poll over a topic list that fetches posts of topics with new posts
+ * since the previous poll (or since `since`, on the first one). Edits do not
+ * change a topic's `lastPostedAt`, so `rescanPerPoll` of the other topics are
+ * also fetched each poll, in turn, to pick up edits in quiet topics.
+ */
+export function topicActivityPoller(
+  listTopics: () => Promise<Topic[]>,
+  latestPosts: (topicId: number) => Promise<Post[]>,
+  since: number,
+  rescanPerPoll = 3
+): () => Promise<Post[]> {
+  const lastPostedAt = new Map<number, string | null>();
+  let rescanFrom = 0;
+
+  return async () => {
+    const topics = await listTopics();
+    const active = topics.filter((topic) => {
+      const previous = lastPostedAt.get(topic.id);
+      lastPostedAt.set(topic.id, topic.lastPostedAt);
+      return previous === undefined
+        ? Date.parse(topic.lastPostedAt ?? topic.createdAt) > since
+        : previous !== topic.lastPostedAt;
+    });
+
+    const quiet = topics.filter((topic) => !active.includes(topic));
+    const rescanned = Array.from(
+      { length: Math.min(rescanPerPoll, quiet.length) },
+      (_, offset) => quiet[(rescanFrom + offset) % quiet.length]
+    );
+    rescanFrom += rescanned.length;
+
+    // One topic at a time to keep the load on Discourse flat
+    const posts: Post[] = [];
+    for (const topic of [...active, ...rescanned]) {
+      posts.push(...(await latestPosts(topic.id)));
+    }
+    return posts;
+  };
+}
+
+// Resolves after `ms`, or as soon as the signal aborts
+const sleep = (ms: number, signal: AbortSignal) =>
+  new Promise<void>((resolve) => {
+    const timer = setTimeout(done, ms);
+    signal.addEventListener("abort", done, { once: true });
+
+    function done() {
+      clearTimeout(timer);
+      signal.removeEventListener("abort", done);
+      resolve();
+    }
+  });
+
+// Transient poll failures stretch the interval up to 8x
+const MAX_BACKOFF_DOUBLINGS = 3;
+
+// Undelivered changes a slow stream may hold before it stops taking polls
+const MAX_PENDING_CHANGES = 100;
+
+type Subscriber = {
+  tracker: PostChangeTracker;
+  // Post id -> latest undelivered change, in delivery order
+  pending: Map<number, PostChange>;
+  catchUp: () => Promise<Post[]>;
+  stalled: boolean;
+  error?: unknown;
+  wake: () => void;
+};
+
+type Feed = {
+  poll: () => Promise<Post[]>;
+  subscribers: Set<Subscriber>;
+};
+
+/**
+ * WatchHub - Runs one poller per watched topic or category, shared by every
+ * stream on it, and caps how many streams may be open at once
+ *
+ * Each stream keeps its own tracker, so subscribers with different `since`
+ * values see the same snapshots but their own changes. A stream that joins a
+ * running poller catches up with one poll of its own first. Polls that fail
+ * with a transient error are retried with a growing delay; any other failure
+ * ends every stream on the key.
+ *
+ * Queued changes to the same post are merged. A stream that falls
+ * `MAX_PENDING_CHANGES` behind skips polls until it drains, then catches up
+ * again with a poll of its own.
+ */
+export class WatchHub {
+  private feeds = new Map<string, Feed>();
+  private streams = 0;
+
+  constructor(
+    private readonly options: {
+      intervalMs: number;
+      maxStreams: number;
+      signal: AbortSignal;
+      isTransient?: (error: unknown) => boolean;
+    }
+  ) {}
+
+  get size(): number {
+    return this.streams;
+  }
+
+  /**
+   * Open a stream of changes for `key`, or null when the cap is reached.
+   * `poll` is only used if no poller for `key` is running; `catchUp` is only
+   * used if one is.
+   */
+  open(
+    key: string,
+    feed: {
+      poll: () => Promise<Post[]>;
+      catchUp: () => Promise<Post[]>;
+      since: number;
+      signal?: AbortSignal;
+    }
+  ): AsyncGenerator<PostChange> | null {
+    if (this.streams >= this.options.maxStreams) return null;
+    this.streams++;
+
+    const subscriber: Subscriber = {
+      tracker: new PostChangeTracker(feed.since),
+      pending: new Map(),
+      catchUp: feed.catchUp,
+      stalled: false,
+      wake: () => {},
+    };
+
+    const running = this.feeds.get(key);
+    if (running) {
+      running.subscribers.add(subscriber);
+      this.catchUp(subscriber);
+    } else {
+      this.feeds.set(key, {
+        poll: feed.poll,
+        subscribers: new Set([subscriber]),
+      });
+      void this.run(key);
+    }
+
+    const signal = feed.signal
+      ? AbortSignal.any([feed.signal, this.options.signal])
+      : this.options.signal;
+    return this.stream(key, subscriber, signal);
+  }
+
+  private async *stream(
+    key: string,
+    subscriber: Subscriber,
+    signal: AbortSignal
+  ): AsyncGenerator<PostChange> {
+    const wake = () => subscriber.wake();
+    signal.addEventListener("abort", wake, { once: true });
+
+    try {
+      while (!signal.aborted) {
+        const [change] = subscriber.pending.values();
+        if (change) {
+          subscriber.pending.delete(change.post.id);
+          if (subscriber.stalled && subscriber.pending.size === 0) {
+            subscriber.stalled = false;
+            this.catchUp(subscriber);
+          }
+          yield change;
+        } else if (subscriber.error !== undefined) {
+          throw subscriber.error;
+        } else {
+          await new Promise<void>((resolve) => (subscriber.wake = resolve));
+        }
+      }
+    } finally {
+      signal.removeEventListener("abort", wake);
+      this.feeds.get(key)?.subscribers.delete(subscriber);
+      this.streams--;
+    }
+  }
+
+  private async run(key: string): Promise<void> {
+    const feed = this.feeds.get(key)!;
+    let failures = 0;
+
+    while (feed.subscribers.size > 0 && !this.options.signal.aborted) {
+      try {
+        const posts = await feed.poll();
+        failures = 0;
+        for (const subscriber of feed.subscribers) {
+          this.deliver(subscriber, posts);
+        }
+      } catch (error) {
+        if (!this.options.isTransient?.(error)) {
+          for (const subscriber of feed.subscribers) {
+            this.fail(subscriber, error);
+          }
+          break;
+        }
+        failures++;
+      }
+      const backoff = 2 ** Math.min(failures, MAX_BACKOFF_DOUBLINGS);
+      await sleep(this.options.intervalMs * backoff, this.options.signal);
+    }
+
+    this.feeds.delete(key);
+  }
+
+  private catchUp(subscriber: Subscriber): void {
+    // After a transient failure the shared poller's next round catches up
+    subscriber.catchUp().then(
+      (posts) => this.deliver(subscriber, posts),
+      (error) => {
+        if (!this.options.isTransient?.(error)) this.fail(subscriber, error);
+      }
+    );
+  }
+
+  private deliver(subscriber: Subscriber, posts: Post[]): void {
+    // Left out of the tracker, so the catch-up after draining reports it
+    if (subscriber.stalled) return;
+
+    for (const change of subscriber.tracker.diff(posts)) {
+      const queued = subscriber.pending.get(change.post.id);
+      // Re-queue at the end so cursors stay in order
+      subscriber.pending.delete(change.post.id);
+      subscriber.pending.set(
+        change.post.id,
+        queued?.type === "created" ? { ...change, type: "created" } : change
+      );
+    }
+    subscriber.stalled = subscriber.pending.size >= MAX_PENDING_CHANGES;
+    subscriber.wake();
+  }
+
+  private fail(subscriber: Subscriber, error: unknown): void {
+    subscriber.error = error;
+    subscriber.wake();
+  }
+}
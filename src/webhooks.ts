@@ -0,0 +1,97 @@
+import { createHmac, timingSafeEqual } from "crypto";
+import { z } from "every-plugin/zod";
+import type { WebhookEventSchema } from "./contract";
+import {
+  mapPost,
+  mapTopic,
+  PostPayloadSchema,
+  TopicPayloadSchema,
+} from "./service";
+
+export type WebhookEvent = z.infer<typeof WebhookEventSchema>;
+
+// Payload keys of the typed events; a body that fails these is passed on as
+// an untyped event
+const WebhookPayloadSchema = z.object({
+  topic: TopicPayloadSchema.optional(),
+  post: PostPayloadSchema.optional(),
+  user: z
+    .object({
+      id: z.number(),
+      username: z.string(),
+      name: z.string().nullish(),
+      created_at: z.string().nullish(),
+    })
+    .optional(),
+});
+
+/**
+ * Check an X-Discourse-Event-Signature header ("sha256=<hex HMAC of the body>")
+ */
+export function verifyWebhookSignature(
+  body: string,
+  signature: string,
+  secret: string
+): boolean {
+  const expected = Buffer.from(
+    `sha256=${createHmac("sha256", secret).update(body).digest("hex")}`
+  );
+  const provided = Buffer.from(signature);
+
+  return (
+    provided.length === expected.length && timingSafeEqual(provided, expected)
+  );
+}
+
+/**
+ * Parse a verified webhook body by its payload key; null if it is not a
+ * JSON object
+ */
+export function parseWebhookEvent(
+  event: string,
+  eventId: string | undefined,
+  body: string
+): WebhookEvent | null {
+  let payload: unknown;
+  try {
+    payload = JSON.parse(body);
+  } catch {
+    return null;
+  }
+  if (!payload || typeof payload !== "object" || Array.isArray(payload)) {
+    return null;
+  }
+
+  const base = {
+    id: eventId ?? null,
+    event,
+    receivedAt: new Date().toISOString(),
+  };
+
+  const parsed = WebhookPayloadSchema.safeParse(payload);
+  const data = parsed.success ? parsed.data : {};
+
+  if (data.topic) {
+    return { ...base, type: "topic", topic: mapTopic(data.topic) };
+  }
+  if (data.post) {
+    return { ...base, type: "post", post: mapPost(data.post) };
+  }
+  if (data.user) {
+    return {
+      ...base,
+      type: "user",
+      user: {
+        id: data.user.id,
+        username: data.user.username,
+        name: data.user.name ?? null,
+        createdAt: data.user.created_at ?? null,
+      },
+    };
+  }
+  return {
+    ...base,
+    type: "other",
+    payload: payload as Record<string, unknown>,
+  };
+}